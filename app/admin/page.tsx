@@ -0,0 +1,167 @@
+import { cookies } from 'next/headers'
+import { ADMIN_COOKIE_NAME, isValidAdminCookie } from '@/lib/auth'
+import { ActiveRoom, RecentSession, createRoomServiceClient, listActiveRooms, loadRecentSessions } from '@/lib/admin-dashboard'
+import { formatDuration } from '@/lib/session'
+import { formatMs } from '@/lib/stats'
+import AdminSignIn from '@/components/admin-sign-in'
+import AdminActionButton from '@/components/admin-action-button'
+
+// Live LiveKit state and the data directory are read on every request
+export const dynamic = 'force-dynamic'
+
+const formatTime = (iso: string | null) => iso ? new Date(iso).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' }) : '–'
+
+async function loadActiveRooms(): Promise<{ rooms: ActiveRoom[]; error: string }> {
+  const client = createRoomServiceClient()
+  if (!client) return { rooms: [], error: 'LiveKit configuration is missing' }
+  try {
+    return { rooms: await listActiveRooms(client), error: '' }
+  } catch (err) {
+    console.error('[ADMIN_DASHBOARD] Failed to list rooms:', err)
+    return { rooms: [], error: 'Could not reach LiveKit to list active rooms' }
+  }
+}
+
+function ActiveRoomsTable({ rooms }: { rooms: ActiveRoom[] }) {
+  return (
+    <div className="bg-white border border-form-border-light rounded-lg overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead className="bg-form-off-white text-form-text-dark">
+          <tr>
+            <th className="px-4 py-2 text-left font-medium">Room</th>
+            <th className="px-4 py-2 text-left font-medium">Participants</th>
+            <th className="px-4 py-2 text-center font-medium">Agent</th>
+            <th className="px-4 py-2 text-right font-medium">Duration</th>
+            <th className="px-4 py-2 text-right font-medium"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {rooms.map(room => (
+            <tr key={room.room} className="border-t border-form-border-light text-form-text-dark align-top">
+              <td className="px-4 py-2">
+                {room.room}
+                <span className="block text-xs text-form-text-gray">Started {formatTime(room.created_at)}</span>
+              </td>
+              <td className="px-4 py-2">
+                {room.participants.length === 0 ? (
+                  <span className="text-form-text-gray">Empty</span>
+                ) : (
+                  <ul className="space-y-1">
+                    {room.participants.map(participant => (
+                      <li key={participant.identity} className="flex items-center justify-between gap-2">
+                        <span>
+                          {participant.is_agent ? '🤖 ' : ''}{participant.name || participant.identity}
+                          <span className="block text-xs text-form-text-gray">{participant.identity}</span>
+                        </span>
+                        <AdminActionButton
+                          url={`/api/admin/rooms/${encodeURIComponent(room.room)}/participants/${encodeURIComponent(participant.identity)}`}
+                          label="Remove"
+                          confirmMessage={`Remove ${participant.identity} from ${room.room}?`}
+                          variant="plain"
+                        />
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </td>
+              <td className="px-4 py-2 text-center">
+                {room.agent_present
+                  ? <span className="text-form-success">Present</span>
+                  : <span className="text-form-error">Missing</span>}
+              </td>
+              <td className="px-4 py-2 text-right">{formatDuration(room.duration_ms)}</td>
+              <td className="px-4 py-2 text-right">
+                <AdminActionButton
+                  url={`/api/admin/rooms/${encodeURIComponent(room.room)}`}
+                  label="End Room"
+                  confirmMessage={`End ${room.room} for everyone in it?`}
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+function RecentSessionsTable({ sessions }: { sessions: RecentSession[] }) {
+  return (
+    <div className="bg-white border border-form-border-light rounded-lg overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead className="bg-form-off-white text-form-text-dark">
+          <tr>
+            <th className="px-4 py-2 text-left font-medium">Room</th>
+            <th className="px-4 py-2 text-left font-medium">Scenario</th>
+            <th className="px-4 py-2 text-right font-medium">Duration</th>
+            <th className="px-4 py-2 text-right font-medium">Token → Agent</th>
+            <th className="px-4 py-2 text-right font-medium">Evaluation</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sessions.map(session => (
+            <tr key={session.room} className="border-t border-form-border-light text-form-text-dark">
+              <td className="px-4 py-2">
+                {session.participant ?? session.room}
+                <span className="block text-xs text-form-text-gray">{formatTime(session.finished_at)} · {session.room}</span>
+              </td>
+              <td className="px-4 py-2">{session.scenario_id ?? '–'}</td>
+              <td className="px-4 py-2 text-right">{formatDuration(session.duration_ms)}</td>
+              <td className="px-4 py-2 text-right">
+                {session.agent_joined_at
+                  ? formatMs(session.token_to_agent_ms)
+                  : <span className="text-form-error">Never joined</span>}
+              </td>
+              <td className="px-4 py-2 text-right">
+                {!session.evaluation_stored
+                  ? <span className="text-form-text-gray">None</span>
+                  : session.evaluation_score === null
+                    ? 'Stored'
+                    : <span className="font-medium text-form-gold-muted">{session.evaluation_score}/10</span>}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export default async function AdminPage() {
+  const cookieStore = await cookies()
+  const isAdmin = isValidAdminCookie(cookieStore.get(ADMIN_COOKIE_NAME)?.value)
+
+  if (!isAdmin) return <AdminSignIn title="Operations" />
+
+  const [active, sessions] = await Promise.all([loadActiveRooms(), loadRecentSessions()])
+
+  return (
+    <div className="min-h-screen bg-white p-4">
+      <div className="w-full max-w-5xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold text-form-black">Operations</h1>
+          <AdminActionButton url="/api/admin/session" label="Sign Out" variant="plain" />
+        </div>
+
+        <section className="space-y-2">
+          <h2 className="text-lg font-semibold text-form-text-dark">Active Rooms ({active.rooms.length})</h2>
+          {active.error && <p className="text-sm text-form-error">{active.error}</p>}
+          {!active.error && active.rooms.length === 0
+            ? <p className="text-sm text-form-text-gray">No active rooms.</p>
+            : active.rooms.length > 0 && <ActiveRoomsTable rooms={active.rooms} />}
+        </section>
+
+        <section className="space-y-2">
+          <h2 className="text-lg font-semibold text-form-text-dark">Recently Finished</h2>
+          {sessions.length === 0
+            ? <p className="text-sm text-form-text-gray">No finished sessions recorded yet. Sessions are tracked from LiveKit webhooks.</p>
+            : <RecentSessionsTable sessions={sessions} />}
+        </section>
+
+        <p className="text-xs text-form-text-gray text-center">
+          Token → Agent is the time from minting the room&apos;s first token to the agent joining.
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { apiError, clientIp, isAdminRequest } from '@/lib/auth'
+import { createRoomServiceClient } from '@/lib/admin-dashboard'
+
+export const runtime = 'nodejs'
+
+type RouteContext = { params: Promise<{ room: string; identity: string }> }
+
+// Disconnect one participant; the room stays open for everyone else
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { room, identity } = await params
+
+  if (!isAdminRequest(request)) {
+    return apiError(401, 'auth_required', 'Admin access required')
+  }
+
+  const client = createRoomServiceClient()
+  if (!client) {
+    console.error('Missing LiveKit configuration')
+    return NextResponse.json(
+      { error: 'LiveKit configuration is missing' },
+      { status: 500 }
+    )
+  }
+
+  try {
+    await client.removeParticipant(room, identity)
+    console.info(`[ADMIN_PARTICIPANT_REMOVED] room=${room} participant=${identity} ip=${clientIp(request)}`)
+    return NextResponse.json({ status: 'ok' })
+  } catch (error) {
+    console.error(`[ADMIN_PARTICIPANT_REMOVE_FAILED] room=${room} participant=${identity} error=${error instanceof Error ? error.message : String(error)}`)
+    return NextResponse.json(
+      { error: 'Failed to remove participant' },
+      { status: 502 }
+    )
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { apiError, clientIp, isAdminRequest } from '@/lib/auth'
+import { createRoomServiceClient } from '@/lib/admin-dashboard'
+
+export const runtime = 'nodejs'
+
+type RouteContext = { params: Promise<{ room: string }> }
+
+// End a room for everyone in it (e.g. a call the agent never left)
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { room } = await params
+
+  if (!isAdminRequest(request)) {
+    return apiError(401, 'auth_required', 'Admin access required')
+  }
+
+  const client = createRoomServiceClient()
+  if (!client) {
+    console.error('Missing LiveKit configuration')
+    return NextResponse.json(
+      { error: 'LiveKit configuration is missing' },
+      { status: 500 }
+    )
+  }
+
+  try {
+    await client.deleteRoom(room)
+    console.info(`[ADMIN_ROOM_ENDED] room=${room} ip=${clientIp(request)}`)
+    return NextResponse.json({ status: 'ok' })
+  } catch (error) {
+    console.error(`[ADMIN_ROOM_END_FAILED] room=${room} error=${error instanceof Error ? error.message : String(error)}`)
+    return NextResponse.json(
+      { error: 'Failed to end room' },
+      { status: 502 }
+    )
+  }
+}
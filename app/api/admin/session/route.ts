@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  ADMIN_COOKIE_NAME,
+  ADMIN_SESSION_MAX_AGE_SECONDS,
+  apiError,
+  clientIp,
+  createAdminCookieValue,
+  isValidAdminSecret,
+} from '@/lib/auth'
+import { createRateLimiter, envLimit } from '@/lib/rate-limit'
+
+export const runtime = 'nodejs'
+
+const attemptLimiter = createRateLimiter({ limit: envLimit('ACCESS_CODE_ATTEMPTS_PER_IP', 5), windowMs: 60 * 1000 })
+
+// Exchange ADMIN_API_SECRET for a signed admin cookie (used by the /admin page)
+export async function POST(request: NextRequest) {
+  const ip = clientIp(request)
+  const secret = process.env.ADMIN_API_SECRET
+  if (!secret) {
+    return apiError(503, 'auth_not_configured', 'Admin access is not enabled')
+  }
+
+  const limit = attemptLimiter.check(ip)
+  if (!limit.allowed) {
+    console.warn(`[ADMIN_SESSION_DENIED] reason=rate_limited ip=${ip}`)
+    return apiError(429, 'rate_limited', 'Too many attempts', limit.retryAfterSeconds)
+  }
+
+  const { accessCode } = await request.json().catch(() => ({}))
+  if (!isValidAdminSecret(accessCode)) {
+    console.warn(`[ADMIN_SESSION_DENIED] reason=invalid_access_code ip=${ip}`)
+    return apiError(401, 'invalid_access_code', 'That admin code is not valid')
+  }
+
+  const response = NextResponse.json({ status: 'ok' })
+  response.cookies.set(ADMIN_COOKIE_NAME, createAdminCookieValue(secret), {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: ADMIN_SESSION_MAX_AGE_SECONDS,
+  })
+  console.info(`[ADMIN_SESSION_CREATED] ip=${ip}`)
+  return response
+}
+
+// Sign out
+export async function DELETE() {
+  const response = NextResponse.json({ status: 'ok' })
+  response.cookies.delete(ADMIN_COOKIE_NAME)
+  return response
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  SESSION_COOKIE_NAME,
+  SESSION_MAX_AGE_SECONDS,
+  apiError,
+  authenticate,
+  clientIp,
+  createSessionCookieValue,
+  isValidAccessCode,
+} from '@/lib/auth'
+import { createRateLimiter, envLimit } from '@/lib/rate-limit'
+
+export const runtime = 'nodejs'
+
+// Access codes are short, so guessing is throttled harder than token minting
+const attemptLimiter = createRateLimiter({ limit: envLimit('ACCESS_CODE_ATTEMPTS_PER_IP', 5), windowMs: 60 * 1000 })
+// Each session gets its own token-minting budget, so cap how many sessions one IP can open
+const sessionLimiter = createRateLimiter({ limit: envLimit('SESSIONS_PER_IP_PER_HOUR', 10), windowMs: 60 * 60 * 1000 })
+
+// Exchange the shared access code for a signed session cookie
+export async function POST(request: NextRequest) {
+  const ip = clientIp(request)
+  const secret = process.env.SESSION_SECRET
+  if (!secret || !process.env.ACCESS_CODE) {
+    return apiError(503, 'auth_not_configured', 'Access codes are not enabled')
+  }
+
+  const limit = attemptLimiter.check(ip)
+  if (!limit.allowed) {
+    console.warn(`[SESSION_DENIED] reason=rate_limited ip=${ip}`)
+    return apiError(429, 'rate_limited', 'Too many attempts', limit.retryAfterSeconds)
+  }
+
+  const { accessCode } = await request.json().catch(() => ({}))
+  if (!isValidAccessCode(accessCode)) {
+    console.warn(`[SESSION_DENIED] reason=invalid_access_code ip=${ip}`)
+    return apiError(401, 'invalid_access_code', 'That access code is not valid')
+  }
+
+  const sessionLimit = sessionLimiter.check(ip)
+  if (!sessionLimit.allowed) {
+    console.warn(`[SESSION_DENIED] reason=too_many_sessions ip=${ip}`)
+    return apiError(429, 'rate_limited', 'Too many sign-ins', sessionLimit.retryAfterSeconds)
+  }
+
+  const response = NextResponse.json({ status: 'ok' })
+  response.cookies.set(SESSION_COOKIE_NAME, createSessionCookieValue(secret), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  })
+  console.info(`[SESSION_CREATED] ip=${ip}`)
+  return response
+}
+
+// Lets the client decide whether to ask for an access code before the first call
+export async function GET(request: NextRequest) {
+  const auth = await authenticate(request)
+  return NextResponse.json({ authenticated: !('response' in auth) })
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ROOM_NAME_PATTERN, loadEvaluation, saveEvaluation } from '@/lib/evaluation-store'
+import { hasBearerSecret } from '@/lib/auth'
+import { requireRoomOwner } from '@/lib/room-registry'
+
+export const runtime = 'nodejs'
+
+type RouteContext = { params: Promise<{ room: string }> }
+
+// Agent stores a finished evaluation for a room
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { room } = await params
+
+  try {
+    const secret = process.env.EVALUATIONS_API_SECRET
+    if (!secret) {
+      console.error('[EVALUATION_STORE] EVALUATIONS_API_SECRET is not configured')
+      return NextResponse.json(
+        { error: 'Evaluation store is not configured' },
+        { status: 503 }
+      )
+    }
+
+    if (!hasBearerSecret(request, secret)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!ROOM_NAME_PATTERN.test(room)) {
+      return NextResponse.json(
+        { error: 'Invalid room name' },
+        { status: 400 }
+      )
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { error: 'Body must be valid JSON' },
+        { status: 400 }
+      )
+    }
+    // Accept either the bare evaluation or the `evaluation_ready` message shape
+    const evaluation = body && typeof body === 'object' && 'data' in body ? body.data : body
+
+    if (!evaluation || typeof evaluation !== 'object') {
+      return NextResponse.json(
+        { error: 'Evaluation body must be an object' },
+        { status: 400 }
+      )
+    }
+
+    const record = await saveEvaluation(room, evaluation)
+    console.info(`[EVALUATION_STORED] room=${room} stored_at=${record.stored_at}`)
+
+    return NextResponse.json({ status: 'ok', stored_at: record.stored_at })
+  } catch (error) {
+    console.error(`[EVALUATION_STORE_FAILED] room=${room}`, error)
+    return NextResponse.json(
+      { error: 'Failed to store evaluation' },
+      { status: 500 }
+    )
+  }
+}
+
+// Client recovers an evaluation that arrived after its grace window expired
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { room } = await params
+
+  if (!ROOM_NAME_PATTERN.test(room)) {
+    return NextResponse.json(
+      { error: 'Invalid room name' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const owner = await requireRoomOwner(request, room)
+    if ('response' in owner) return owner.response
+
+    const record = await loadEvaluation(room)
+    if (!record) {
+      return NextResponse.json(
+        { status: 'pending' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(record)
+  } catch (error) {
+    console.error(`[EVALUATION_LOAD_FAILED] room=${room}`, error)
+    return NextResponse.json(
+      { error: 'Failed to load evaluation' },
+      { status: 500 }
+    )
+  }
+}
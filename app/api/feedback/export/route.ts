@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { loadFeedback } from '@/lib/feedback-store'
+import { loadEvaluation } from '@/lib/evaluation-store'
+import { normalizeEvaluation } from '@/lib/evaluation'
+import { csvCell } from '@/lib/exports'
+import { hasBearerSecret } from '@/lib/auth'
+
+export const runtime = 'nodejs'
+
+// All feedback joined with the stored evaluation for the same room, as JSON or CSV
+export async function GET(request: NextRequest) {
+  const secret = process.env.FEEDBACK_EXPORT_SECRET
+  if (!secret) {
+    console.error('[FEEDBACK_EXPORT] FEEDBACK_EXPORT_SECRET is not configured')
+    return NextResponse.json(
+      { error: 'Feedback export is not configured' },
+      { status: 503 }
+    )
+  }
+
+  if (!hasBearerSecret(request, secret)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  const format = request.nextUrl.searchParams.get('format') || 'json'
+  if (format !== 'json' && format !== 'csv') {
+    return NextResponse.json(
+      { error: 'format must be json or csv' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const feedback = await loadFeedback()
+    const rows = await Promise.all(feedback.map(async entry => {
+      const stored = await loadEvaluation(entry.room)
+      return {
+        ...entry,
+        evaluation: stored ? normalizeEvaluation(stored.evaluation).evaluation : null,
+      }
+    }))
+
+    if (format === 'json') {
+      return NextResponse.json({ feedback: rows })
+    }
+
+    const columns = ['room', 'participant', 'scenario_id', 'submitted_at', 'realism', 'difficulty', 'audio_quality', 'comment', 'overall_score', 'evaluated_as']
+    const lines = rows.map(row => [
+      row.room,
+      row.participant,
+      row.scenario_id,
+      row.submitted_at,
+      row.realism,
+      row.difficulty,
+      row.audio_quality,
+      row.comment,
+      row.evaluation?.overall_score ?? null,
+      row.evaluation?.scenario_type ?? null,
+    ].map(csvCell).join(','))
+
+    return new NextResponse([columns.join(','), ...lines].join('\n') + '\n', {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="feedback-${new Date().toISOString().slice(0, 10)}.csv"`,
+      },
+    })
+  } catch (error) {
+    console.error('[FEEDBACK_EXPORT_FAILED]', error)
+    return NextResponse.json(
+      { error: 'Failed to export feedback' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateFeedback } from '@/lib/feedback'
+import { ROOM_NAME_PATTERN } from '@/lib/evaluation-store'
+import { requireRoomOwner } from '@/lib/room-registry'
+import { saveFeedback } from '@/lib/feedback-store'
+
+export const runtime = 'nodejs'
+
+// Trainee submits post-call feedback for a room they minted through /api/voice-bot/token
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => undefined)
+    if (body === undefined) {
+      return NextResponse.json(
+        { error: 'Body must be valid JSON' },
+        { status: 400 }
+      )
+    }
+
+    const validated = validateFeedback(body)
+    if ('error' in validated) {
+      return NextResponse.json(
+        { error: validated.error },
+        { status: 400 }
+      )
+    }
+
+    const { feedback } = validated
+    if (!ROOM_NAME_PATTERN.test(feedback.roomName)) {
+      return NextResponse.json(
+        { error: 'Invalid room name' },
+        { status: 400 }
+      )
+    }
+
+    // Only the trainee who owns the room can submit (or replace) its feedback
+    const owner = await requireRoomOwner(request, feedback.roomName)
+    if ('response' in owner) return owner.response
+
+    const record = await saveFeedback(owner.record, feedback)
+    console.info(`[FEEDBACK_STORED] room=${record.room} realism=${record.realism} difficulty=${record.difficulty} audio_quality=${record.audio_quality} comment_length=${record.comment.length}`)
+
+    return NextResponse.json({ status: 'ok', submitted_at: record.submitted_at })
+  } catch (error) {
+    console.error('Error storing feedback:', error)
+    return NextResponse.json(
+      { error: 'Failed to store feedback' },
+      { status: 500 }
+    )
+  }
+}
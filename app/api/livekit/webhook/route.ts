@@ -1,97 +1,114 @@
+import { createHash } from 'crypto'
 import { NextRequest, NextResponse } from 'next/server'
-import { WebhookReceiver, AgentDispatchClient } from 'livekit-server-sdk'
+import { TokenVerifier, WebhookEvent } from 'livekit-server-sdk'
+import { createReplayGuard } from '@/lib/webhook-replay'
+import { envLimit } from '@/lib/rate-limit'
+import { saveWebhookEvent } from '@/lib/webhook-event-store'
 
 export const runtime = 'nodejs'
 
-const receiver = new WebhookReceiver(
-  process.env.LIVEKIT_API_KEY || '',
-  process.env.LIVEKIT_API_SECRET || ''
-)
+// Events older (or further in the future) than this are refused as replays
+const replayGuard = createReplayGuard({ maxAgeMs: envLimit('LIVEKIT_WEBHOOK_MAX_AGE_SECONDS', 300) * 1000 })
 
-async function dispatchAgentToRoom(roomName: string): Promise<boolean> {
-  const startTime = Date.now()
-  console.info(`[DISPATCH_START] roomName=${roomName} timestamp=${startTime}`)
-
-  try {
-    const apiKey = process.env.LIVEKIT_API_KEY
-    const apiSecret = process.env.LIVEKIT_API_SECRET
-    const liveKitUrl = process.env.LIVEKIT_URL
-
-    if (!apiKey || !apiSecret || !liveKitUrl) {
-      console.error('[DISPATCH_FAILED] Missing LiveKit credentials - apiKey exists: ' + !!apiKey + ', apiSecret exists: ' + !!apiSecret + ', liveKitUrl exists: ' + !!liveKitUrl)
-      return false
-    }
-
-    console.info(`[DISPATCH_CREDENTIALS_OK] liveKitUrl=${liveKitUrl}`)
+// Unsigned webhooks are only accepted when explicitly enabled outside production
+// (e.g. posting sample payloads by hand while developing)
+function allowUnverified(): boolean {
+  if (process.env.LIVEKIT_WEBHOOK_ALLOW_UNVERIFIED !== 'true') return false
+  if (process.env.NODE_ENV === 'production') {
+    console.error('[WEBHOOK_CONFIG] LIVEKIT_WEBHOOK_ALLOW_UNVERIFIED is ignored in production')
+    return false
+  }
+  return true
+}
 
-    // Initialize LiveKit AgentDispatchClient
-    const dispatchClient = new AgentDispatchClient(liveKitUrl, apiKey, apiSecret)
-    console.info(`[DISPATCH_CLIENT_CREATED] roomName=${roomName}`)
+function webhookError(status: number, message: string): NextResponse {
+  return NextResponse.json({ status: 'error', message }, { status })
+}
 
-    // Create a dispatch for the agent to join the room
-    // The agent name must match the Agent class name: 'Assistant'
-    console.info(`[DISPATCH_CALLING_API] roomName=${roomName} agentName=Assistant`)
-    const dispatch = await dispatchClient.createDispatch(roomName, 'Assistant')
+// Same check as WebhookReceiver.receive, done on its own so a bad signature (401) is
+// reported separately from a signed body that doesn't parse (400)
+async function verifySignature(body: string, authHeader: string, apiKey: string, apiSecret: string): Promise<void> {
+  if (!authHeader) throw new Error('authorization header is empty')
+  const claims = await new TokenVerifier(apiKey, apiSecret).verify(authHeader)
+  if (claims.sha256 !== createHash('sha256').update(body).digest('base64')) {
+    throw new Error('sha256 checksum of body does not match')
+  }
+}
 
-    const duration = Date.now() - startTime
-    console.info(`[DISPATCH_SUCCESS] roomName=${roomName} dispatchId=${dispatch.id} duration_ms=${duration} status=success`)
+async function handleEvent(event: WebhookEvent): Promise<void> {
+  // Room lifecycle events feed /api/rooms
+  await saveWebhookEvent(event)
 
-    return true
-  } catch (error) {
-    const duration = Date.now() - startTime
-    console.error(`[DISPATCH_FAILED] roomName=${roomName} duration_ms=${duration} error=${error instanceof Error ? error.message : String(error)}`)
-    return false
+  if (event.event === 'participant_joined') {
+    console.info(`[WEBHOOK_PARTICIPANT_JOINED] room=${event.room?.name} participant=${event.participant?.identity}`)
+    // Agent auto-dispatch is now embedded in token, no dispatch call needed here
   }
 }
 
 export async function POST(request: NextRequest) {
-  try {
-    const body = await request.text()
-
-    try {
-      const event = await receiver.receive(body, request.headers.get('Authorization') || '')
-
-      console.info('[Webhook] Event received and verified:', {
-        event: event.event,
-        room: (event as any).room?.name,
-      })
+  const apiKey = process.env.LIVEKIT_API_KEY
+  const apiSecret = process.env.LIVEKIT_API_SECRET
+  const skipVerification = allowUnverified()
 
-      if (event.event === 'participant_joined') {
-        const roomName = (event as any).room?.name
-        const participant = (event as any).participant
+  if ((!apiKey || !apiSecret) && !skipVerification) {
+    console.error('[WEBHOOK_NOT_CONFIGURED] LIVEKIT_API_KEY and LIVEKIT_API_SECRET are required to verify webhooks')
+    return webhookError(500, 'Webhook verification is not configured')
+  }
 
-        console.info(`[WEBHOOK_PARTICIPANT_JOINED] room=${roomName} participant=${participant?.identity}`)
-        // Agent auto-dispatch is now embedded in token, no dispatch call needed here
-      }
+  const body = await request.text()
 
-      return NextResponse.json(
-        { status: 'ok', message: 'Webhook processed' },
-        { status: 200 }
-      )
+  if (!skipVerification) {
+    try {
+      await verifySignature(body, request.headers.get('Authorization') || '', apiKey || '', apiSecret || '')
     } catch (verifyError) {
-      console.warn('[Webhook] Signature verification failed')
+      // Usually a wrong API key/secret pair between LiveKit and this deployment
+      console.error(`[WEBHOOK_REJECTED] reason=invalid_signature error=${verifyError instanceof Error ? verifyError.message : String(verifyError)}`)
+      return webhookError(401, 'Webhook signature verification failed')
+    }
+  }
 
-      const webhookData = JSON.parse(body)
+  let event: WebhookEvent
+  try {
+    event = WebhookEvent.fromJson(JSON.parse(body), { ignoreUnknownFields: true })
+  } catch (parseError) {
+    // Signed by LiveKit but not a webhook event we can read, e.g. an SDK/server version mismatch
+    console.error(`[WEBHOOK_REJECTED] reason=malformed_body error=${parseError instanceof Error ? parseError.message : String(parseError)}`)
+    return webhookError(400, 'Malformed webhook body')
+  }
+
+  if (skipVerification) {
+    console.warn(`[WEBHOOK_UNVERIFIED] event=${event.event} id=${event.id} (LIVEKIT_WEBHOOK_ALLOW_UNVERIFIED)`)
+  }
 
-      if (webhookData.event === 'participant_joined') {
-        const roomName = webhookData.room?.name
+  const replay = replayGuard.check(event.id, Number(event.createdAt))
+  if (replay === 'duplicate') {
+    // Already processed: acknowledge so LiveKit stops retrying
+    console.info(`[WEBHOOK_DUPLICATE] event=${event.event} id=${event.id}`)
+    return NextResponse.json({ status: 'ok', message: 'Duplicate event ignored' }, { status: 200 })
+  }
+  if (replay !== 'ok') {
+    console.warn(`[WEBHOOK_REJECTED] reason=${replay} event=${event.event} id=${event.id} created_at=${event.createdAt}`)
+    return webhookError(400, replay === 'stale' ? 'Webhook event is too old' : 'Webhook event id is missing')
+  }
 
-        console.info(`[WEBHOOK_PARTICIPANT_JOINED_DEVMODE] room=${roomName} participant=${webhookData.participant?.identity}`)
-        // Agent auto-dispatch is now embedded in token, no dispatch call needed here
-      }
+  console.info('[Webhook] Event received and verified:', {
+    event: event.event,
+    id: event.id,
+    room: event.room?.name,
+  })
 
-      return NextResponse.json(
-        { status: 'ok', message: 'Webhook processed (dev mode)' },
-        { status: 200 }
-      )
-    }
+  try {
+    await handleEvent(event)
   } catch (error) {
+    replayGuard.forget(event.id)
     console.error('[Webhook] Error processing webhook:', error)
-    return NextResponse.json(
-      { status: 'error', message: 'Error processing webhook' },
-      { status: 200 }
-    )
+    return webhookError(500, 'Error processing webhook')
   }
+
+  return NextResponse.json(
+    { status: 'ok', message: 'Webhook processed' },
+    { status: 200 }
+  )
 }
 
 export async function GET(request: NextRequest) {
@@ -103,6 +120,7 @@ export async function GET(request: NextRequest) {
         hasApiKey: !!process.env.LIVEKIT_API_KEY,
         hasApiSecret: !!process.env.LIVEKIT_API_SECRET,
         hasUrl: !!process.env.LIVEKIT_URL,
+        allowUnverified: allowUnverified(),
       },
     },
     { status: 200 }
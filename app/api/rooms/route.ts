@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { loadRoomLifecycles } from '@/lib/webhook-event-store'
+import { isAdminRequest } from '@/lib/auth'
+
+export const runtime = 'nodejs'
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// `from`/`to` accept ISO timestamps or plain dates; a plain `to` date includes that whole day
+function parseBound(value: string | null, endOfDay: boolean): Date | null | 'invalid' {
+  if (!value) return null
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) return 'invalid'
+  if (endOfDay && DATE_ONLY_PATTERN.test(value)) date.setUTCHours(23, 59, 59, 999)
+  return date
+}
+
+// Room lifecycle records built from LiveKit webhooks, newest first
+export async function GET(request: NextRequest) {
+  if (!process.env.ADMIN_API_SECRET) {
+    console.error('[ROOMS_API] ADMIN_API_SECRET is not configured')
+    return NextResponse.json(
+      { error: 'Rooms API is not configured' },
+      { status: 503 }
+    )
+  }
+
+  if (!isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  const from = parseBound(request.nextUrl.searchParams.get('from'), false)
+  const to = parseBound(request.nextUrl.searchParams.get('to'), true)
+  if (from === 'invalid' || to === 'invalid') {
+    return NextResponse.json(
+      { error: 'from and to must be ISO dates (e.g. 2025-01-31 or 2025-01-31T12:00:00Z)' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const rooms = await loadRoomLifecycles({ from: from ?? undefined, to: to ?? undefined })
+    return NextResponse.json({ rooms })
+  } catch (error) {
+    console.error('[ROOMS_API_FAILED]', error)
+    return NextResponse.json(
+      { error: 'Failed to load rooms' },
+      { status: 500 }
+    )
+  }
+}
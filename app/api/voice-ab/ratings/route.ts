@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateVoiceRating } from '@/lib/voice-ratings'
+import { ROOM_NAME_PATTERN } from '@/lib/evaluation-store'
+import { loadVoiceAssignment, saveVoiceRating } from '@/lib/voice-ab-store'
+import { requireRoomOwner } from '@/lib/room-registry'
+
+export const runtime = 'nodejs'
+
+// Client submits the post-call rating for a blind A/B voice test session
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => undefined)
+    if (body === undefined) {
+      return NextResponse.json(
+        { error: 'Body must be valid JSON' },
+        { status: 400 }
+      )
+    }
+
+    const validated = validateVoiceRating(body)
+    if ('error' in validated) {
+      return NextResponse.json(
+        { error: validated.error },
+        { status: 400 }
+      )
+    }
+
+    const { rating } = validated
+    if (!ROOM_NAME_PATTERN.test(rating.roomName)) {
+      return NextResponse.json(
+        { error: 'Invalid room name' },
+        { status: 400 }
+      )
+    }
+
+    const owner = await requireRoomOwner(request, rating.roomName)
+    if ('response' in owner) return owner.response
+
+    // The configuration comes from the server-side assignment, never from the client
+    const assignment = await loadVoiceAssignment(rating.roomName)
+    if (!assignment) {
+      return NextResponse.json(
+        { error: 'This call was not part of a voice test' },
+        { status: 404 }
+      )
+    }
+
+    const record = await saveVoiceRating(assignment.config_id, rating)
+    console.info(`[VOICE_RATING_STORED] room=${record.room} config=${record.config_id} naturalness=${record.naturalness} pace=${record.pace} overall=${record.overall} turns=${record.turn_latencies_ms.length}`)
+
+    return NextResponse.json({ status: 'ok' })
+  } catch (error) {
+    console.error('Error storing voice rating:', error)
+    return NextResponse.json(
+      { error: 'Failed to store rating' },
+      { status: 500 }
+    )
+  }
+}
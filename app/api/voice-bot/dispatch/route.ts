@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { DEFAULT_SCENARIO_SELECTION, resolveScenarioSelection } from '@/lib/scenarios'
+import { ROOM_NAME_PATTERN } from '@/lib/evaluation-store'
+import { agentDispatchMetadata, dispatchAgentToRoom, getAgentName } from '@/lib/agent-dispatch'
+import { findAssignedVoiceConfig } from '@/lib/voice-ab-store'
+import { checkRoomAccess } from '@/lib/room-registry'
+import { apiError, authenticate, clientIp } from '@/lib/auth'
+import { tokenIdentityLimiter, tokenIpLimiter } from '@/lib/rate-limit'
+
+export const runtime = 'nodejs'
+
+// Client watchdog asks for the agent again when it never joined after auto-dispatch
+export async function POST(request: NextRequest) {
+  const ip = clientIp(request)
+
+  try {
+    // Dispatching costs as much as minting a token, so the same auth, limits and ownership rules apply
+    const ipLimit = tokenIpLimiter.check(ip)
+    if (!ipLimit.allowed) {
+      console.warn(`[AGENT_REDISPATCH_DENIED] reason=rate_limited_ip ip=${ip}`)
+      return apiError(429, 'rate_limited', 'Too many dispatch requests', ipLimit.retryAfterSeconds)
+    }
+
+    const auth = await authenticate(request)
+    if ('response' in auth) return auth.response
+
+    const identityLimit = tokenIdentityLimiter.check(auth.identity.subject)
+    if (!identityLimit.allowed) {
+      console.warn(`[AGENT_REDISPATCH_DENIED] reason=rate_limited_identity subject=${auth.identity.subject} ip=${ip}`)
+      return apiError(429, 'rate_limited', 'Too many dispatch requests', identityLimit.retryAfterSeconds)
+    }
+
+    const body = await request.json().catch(() => null)
+    const { roomName, scenario } = body ?? {}
+
+    if (typeof roomName !== 'string' || !ROOM_NAME_PATTERN.test(roomName)) {
+      return apiError(400, 'invalid_request', 'A valid roomName is required')
+    }
+
+    const { access, record } = await checkRoomAccess(roomName, auth.identity.subject)
+    if (access !== 'owner' || !record) {
+      console.warn(`[AGENT_REDISPATCH_DENIED] room=${roomName} subject=${auth.identity.subject} access=${access}`)
+      return apiError(access === 'new' ? 404 : 403, access === 'new' ? 'not_found' : 'forbidden', 'This conversation belongs to someone else or does not exist')
+    }
+
+    // The participant comes from the room record (sanitized at minting), not from the request body
+    const participantName = record.participant
+
+    const resolved = resolveScenarioSelection(scenario ?? DEFAULT_SCENARIO_SELECTION)
+    if ('error' in resolved) {
+      return NextResponse.json(
+        { error: resolved.error },
+        { status: 400 }
+      )
+    }
+
+    // Keep the room's A/B voice assignment, if any
+    const voiceConfig = await findAssignedVoiceConfig(roomName)
+    const dispatched = await dispatchAgentToRoom(roomName, agentDispatchMetadata(roomName, participantName, resolved.scenario, voiceConfig))
+    console.info(`[AGENT_REDISPATCH] room=${roomName} agentName=${getAgentName()} participant=${participantName} status=${dispatched ? 'success' : 'failed'}`)
+
+    if (!dispatched) {
+      return NextResponse.json(
+        { error: 'The agent could not be dispatched. Please try again shortly.' },
+        { status: 502 }
+      )
+    }
+
+    return NextResponse.json({ status: 'ok' })
+  } catch (error) {
+    console.error('Error redispatching agent:', error)
+    return NextResponse.json(
+      { error: 'Failed to dispatch agent' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,99 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { NextRequest } from 'next/server'
+import { TokenVerifier } from 'livekit-server-sdk'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { SESSION_COOKIE_NAME, createSessionCookieValue } from '@/lib/auth'
+
+const API_KEY = 'test-key'
+const API_SECRET = 'test-secret-that-is-long-enough-for-hs256'
+const TOKEN_API_SECRET = 'test-token-api-secret'
+const SESSION_SECRET = 'test-session-secret'
+
+let POST: typeof import('./route').POST
+let dataDir: string
+
+interface TokenRequestOptions {
+  auth: 'session' | 'shared_secret'
+  body: unknown
+}
+
+function tokenRequest({ auth, body }: TokenRequestOptions): NextRequest {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (auth === 'session') headers.Cookie = `${SESSION_COOKIE_NAME}=${createSessionCookieValue(SESSION_SECRET)}`
+  else headers.Authorization = `Bearer ${TOKEN_API_SECRET}`
+  return new NextRequest('http://localhost/api/voice-bot/token', {
+    method: 'POST',
+    headers,
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  })
+}
+
+describe('POST /api/voice-bot/token', () => {
+  beforeAll(async () => {
+    // Route modules read DATA_DIR and the secrets when they load
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'token-route-'))
+    vi.stubEnv('DATA_DIR', dataDir)
+    vi.stubEnv('LIVEKIT_API_KEY', API_KEY)
+    vi.stubEnv('LIVEKIT_API_SECRET', API_SECRET)
+    vi.stubEnv('LIVEKIT_URL', 'wss://livekit.test')
+    vi.stubEnv('TOKEN_API_SECRET', TOKEN_API_SECRET)
+    vi.stubEnv('SESSION_SECRET', SESSION_SECRET)
+    vi.spyOn(console, 'info').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const route = await import('./route')
+    POST = route.POST
+  })
+
+  afterAll(async () => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+    await fs.rm(dataDir, { recursive: true, force: true })
+  })
+
+  it('returns 400 invalid_request for a malformed body', async () => {
+    const response = await POST(tokenRequest({ auth: 'session', body: '{"participantName":' }))
+    expect(response.status).toBe(400)
+    expect(await response.json()).toMatchObject({ code: 'invalid_request' })
+  })
+
+  it('refuses observer tokens to session callers', async () => {
+    const response = await POST(tokenRequest({
+      auth: 'session',
+      body: { participantName: 'coach', role: 'observer', roomName: 'room-test-roleplay-observed' },
+    }))
+    expect(response.status).toBe(403)
+    expect(await response.json()).toMatchObject({ code: 'forbidden' })
+  })
+
+  it('returns 404 for an observer of a room that was never minted', async () => {
+    const response = await POST(tokenRequest({
+      auth: 'shared_secret',
+      body: { participantName: 'coach', role: 'observer', roomName: 'room-test-roleplay-unknown' },
+    }))
+    expect(response.status).toBe(404)
+    expect(await response.json()).toMatchObject({ code: 'not_found' })
+  })
+
+  it('lets an observer subscribe to a room a trainee started', async () => {
+    const trainee = await POST(tokenRequest({
+      auth: 'session',
+      body: { participantName: 'trainee', roomName: 'room-test-roleplay-live' },
+    }))
+    expect(trainee.status).toBe(200)
+
+    const observer = await POST(tokenRequest({
+      auth: 'shared_secret',
+      body: { participantName: 'coach', role: 'observer', roomName: 'room-test-roleplay-live' },
+    }))
+    expect(observer.status).toBe(200)
+    const { token, role } = await observer.json()
+    expect(role).toBe('observer')
+
+    const claims = await new TokenVerifier(API_KEY, API_SECRET).verify(token)
+    expect(claims.video).toMatchObject({ room: 'room-test-roleplay-live', canPublish: false, canSubscribe: true })
+    expect(claims.roomConfig).toBeUndefined()
+  })
+})
@@ -1,18 +1,77 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { AccessToken } from 'livekit-server-sdk'
 import { RoomAgentDispatch, RoomConfiguration } from '@livekit/protocol'
 import { randomUUID } from 'crypto'
+import { DEFAULT_SCENARIO_SELECTION, resolveScenarioSelection } from '@/lib/scenarios'
+import { agentDispatchMetadata, getAgentName } from '@/lib/agent-dispatch'
+import { VoiceConfig, assignVoiceConfig } from '@/lib/voice-ab-store'
+import { ROOM_NAME_PREFIX, checkRoomAccess, isValidClientRoomName, recordMintedRoom } from '@/lib/room-registry'
+import { apiError, authenticate, clientIp } from '@/lib/auth'
+import { tokenIdentityLimiter, tokenIpLimiter } from '@/lib/rate-limit'
+import { TOKEN_ROLES, TokenRole, createPolicyToken, isTokenRole } from '@/lib/token-policies'
+
+export const runtime = 'nodejs'
+
+// LiveKit identities end up in logs, file names and the agent's prompt context
+function sanitizeIdentity(name: unknown): string | null {
+  if (typeof name !== 'string') return null
+  const cleaned = name.trim().replace(/[^A-Za-z0-9_-]/g, '').slice(0, 64)
+  return cleaned || null
+}
+
+// Display name and team only travel inside the token (attributes/metadata), so allow spaces
+function sanitizeLabel(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined
+  const cleaned = value.replace(/[\u0000-\u001f\u007f]/g, '').trim().slice(0, 64)
+  return cleaned || undefined
+}
 
 export async function POST(request: NextRequest) {
+  const ip = clientIp(request)
+
   try {
-    const body = await request.json()
-    const { participantName, roomName } = body
+    const ipLimit = tokenIpLimiter.check(ip)
+    if (!ipLimit.allowed) {
+      console.warn(`[TOKEN_DENIED] reason=rate_limited_ip ip=${ip}`)
+      return apiError(429, 'rate_limited', 'Too many token requests', ipLimit.retryAfterSeconds)
+    }
 
+    const auth = await authenticate(request)
+    if ('response' in auth) {
+      console.warn(`[TOKEN_DENIED] reason=unauthenticated ip=${ip} status=${auth.response.status}`)
+      return auth.response
+    }
+    const { subject } = auth.identity
+
+    const identityLimit = tokenIdentityLimiter.check(subject)
+    if (!identityLimit.allowed) {
+      console.warn(`[TOKEN_DENIED] reason=rate_limited_identity subject=${subject} ip=${ip}`)
+      return apiError(429, 'rate_limited', 'Too many token requests', identityLimit.retryAfterSeconds)
+    }
+
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return apiError(400, 'invalid_request', 'Body must be a JSON object')
+    }
+    const { roomName, scenario } = body
+
+    const participantName = sanitizeIdentity(body.participantName)
     if (!participantName) {
-      return NextResponse.json(
-        { error: 'participantName is required' },
-        { status: 400 }
-      )
+      return apiError(400, 'invalid_request', 'participantName is required (letters, numbers, - and _)')
+    }
+
+    if (roomName !== undefined && !isValidClientRoomName(roomName)) {
+      return apiError(400, 'invalid_request', `roomName must start with ${ROOM_NAME_PREFIX} and use only letters, numbers, - and _`)
+    }
+
+    const role: TokenRole = body.role ?? 'trainee'
+    if (!isTokenRole(role)) {
+      return apiError(400, 'invalid_request', `role must be one of: ${TOKEN_ROLES.join(', ')}`)
+    }
+
+    // Validate scenario choice against the server-side catalog
+    const resolved = resolveScenarioSelection(scenario ?? DEFAULT_SCENARIO_SELECTION)
+    if ('error' in resolved) {
+      return apiError(400, 'invalid_request', resolved.error)
     }
 
     const apiKey = process.env.LIVEKIT_API_KEY
@@ -29,46 +88,70 @@ export async function POST(request: NextRequest) {
 
     // Use provided room name or generate unique one per session
     // This prevents users from being forced into the same room
-    const assignedRoom = roomName || `room-test-roleplay-${randomUUID()}`
+    const assignedRoom: string = roomName || `${ROOM_NAME_PREFIX}${randomUUID()}`
 
-    // Create access token for the participant
-    const at = new AccessToken(apiKey, apiSecret, {
-      identity: participantName,
-      name: participantName,
-    })
+    if (role === 'observer') {
+      // Observers listen in on someone else's call, so they need a trusted caller and a live room
+      if (auth.identity.method === 'session') {
+        console.warn(`[TOKEN_DENIED] reason=observer_not_allowed subject=${subject} ip=${ip}`)
+        return apiError(403, 'forbidden', 'Observer tokens require the shared API secret')
+      }
+      if (!roomName) {
+        return apiError(400, 'invalid_request', 'roomName is required for observers')
+      }
+      if ((await checkRoomAccess(assignedRoom, subject)).access === 'new') {
+        return apiError(404, 'not_found', 'Unknown room')
+      }
+    } else {
+      // Only the caller who first minted a room may get tokens for it again (rejoin)
+      const { access } = await checkRoomAccess(assignedRoom, subject)
+      if (access === 'forbidden') {
+        console.warn(`[TOKEN_DENIED] reason=room_not_owned room=${assignedRoom} subject=${subject} ip=${ip}`)
+        return apiError(403, 'forbidden', 'This conversation belongs to someone else')
+      }
+    }
 
-    // Grant basic room permissions
-    at.addGrant({
-      roomJoin: true,
-      room: assignedRoom,
-      canPublish: true,
-      canPublishData: true,
-      canSubscribe: true,
+    // Create access token for the participant (TTL and grants come from the role's policy)
+    const { token: at, policy, expiresAt } = createPolicyToken(apiKey, apiSecret, assignedRoom, role, {
+      identity: participantName,
+      displayName: sanitizeLabel(body.displayName) ?? participantName,
+      team: sanitizeLabel(body.team),
+      scenario: resolved.scenario,
     })
 
     // Configure agent auto-dispatch via roomConfig
     // Use environment variable for agent name to match backend configuration
-    const agentName = process.env.LIVEKIT_AGENT_NAME || 'voice-bot-grok-test'
-    
-    at.roomConfig = new RoomConfiguration({
-      agents: [
-        new RoomAgentDispatch({
-          agentName: agentName,  // Matches backend LIVEKIT_AGENT_NAME env var
-          metadata: JSON.stringify({
-            room: assignedRoom,
-            participant: participantName,
+    const agentName = getAgentName()
+    let voiceConfig: VoiceConfig | null = null
+
+    if (policy.dispatchAgent) {
+      // Remember the room and its owner (ownership checks, feedback)
+      await recordMintedRoom(assignedRoom, participantName, resolved.scenario.id, subject)
+
+      // Blind A/B voice test: the assignment goes to the agent only, never to the client
+      voiceConfig = await assignVoiceConfig(assignedRoom)
+
+      at.roomConfig = new RoomConfiguration({
+        agents: [
+          new RoomAgentDispatch({
+            agentName: agentName,  // Matches backend LIVEKIT_AGENT_NAME env var
+            metadata: agentDispatchMetadata(assignedRoom, participantName, resolved.scenario, voiceConfig),
           }),
-        }),
-      ],
-    })
+        ],
+      })
+    }
 
     const token = await at.toJwt()
 
-    console.info(`[TOKEN_MINTED] room=${assignedRoom} agentName=${agentName} participant=${participantName} status=success`)
+    console.info(`[TOKEN_MINTED] room=${assignedRoom} agentName=${agentName} participant=${participantName} role=${role} ttl=${policy.ttlSeconds}s scenario=${resolved.scenario.id} difficulty=${resolved.scenario.difficulty} persona=${resolved.scenario.persona.id} voice_config=${voiceConfig?.id ?? 'none'} auth=${auth.identity.method} status=success`)
 
     return NextResponse.json({
       token,
       url: livekitUrl,
+      scenario: resolved.scenario,
+      voiceTest: voiceConfig !== null,
+      role,
+      expiresAt,
     })
   } catch (error) {
     console.error('Error generating token:', error)
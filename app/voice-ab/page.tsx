@@ -0,0 +1,76 @@
+import { cookies } from 'next/headers'
+import { summarizeVoiceRatings, loadVoiceAbTestConfig } from '@/lib/voice-ab-store'
+import { ADMIN_COOKIE_NAME, isValidAdminCookie } from '@/lib/auth'
+import AdminSignIn from '@/components/admin-sign-in'
+import { formatMs } from '@/lib/stats'
+import { RATING_MAX } from '@/lib/voice-ratings'
+
+// Results are read from the data directory on every request
+export const dynamic = 'force-dynamic'
+
+const formatRating = (value: number | null) => value === null ? '–' : `${value.toFixed(2)}/${RATING_MAX}`
+
+export default async function VoiceAbResultsPage() {
+  // Results reveal which configuration is which, so they are admin-only like /admin
+  const cookieStore = await cookies()
+  if (!isValidAdminCookie(cookieStore.get(ADMIN_COOKIE_NAME)?.value)) {
+    return <AdminSignIn title="Voice A/B Test Results" />
+  }
+
+  const [config, results] = await Promise.all([loadVoiceAbTestConfig(), summarizeVoiceRatings()])
+
+  return (
+    <div className="min-h-screen bg-white p-4">
+      <div className="w-full max-w-4xl mx-auto space-y-6">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-form-black mb-1">Voice A/B Test Results</h1>
+          <p className="text-sm text-form-text-gray">
+            {config?.enabled
+              ? 'Test is running: new calls are assigned a voice configuration at random.'
+              : 'Test is off: set "enabled" in the voice A/B config to assign configurations.'}
+          </p>
+        </div>
+
+        {results.length === 0 ? (
+          <p className="text-sm text-form-text-gray text-center py-8">No voice configurations or ratings yet.</p>
+        ) : (
+          <div className="bg-white border border-form-border-light rounded-lg overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-form-off-white text-form-text-dark">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium">Configuration</th>
+                  <th className="px-4 py-2 text-right font-medium">Sessions</th>
+                  <th className="px-4 py-2 text-right font-medium">Naturalness</th>
+                  <th className="px-4 py-2 text-right font-medium">Pace</th>
+                  <th className="px-4 py-2 text-right font-medium">Overall</th>
+                  <th className="px-4 py-2 text-right font-medium">Latency p50</th>
+                  <th className="px-4 py-2 text-right font-medium">Latency p95</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.map(result => (
+                  <tr key={result.config_id} className="border-t border-form-border-light text-form-text-dark">
+                    <td className="px-4 py-2">
+                      {result.label}
+                      <span className="block text-xs text-form-text-gray">{result.config_id}</span>
+                    </td>
+                    <td className="px-4 py-2 text-right">{result.sessions}</td>
+                    <td className="px-4 py-2 text-right">{formatRating(result.naturalness)}</td>
+                    <td className="px-4 py-2 text-right">{formatRating(result.pace)}</td>
+                    <td className="px-4 py-2 text-right font-medium text-form-gold-muted">{formatRating(result.overall)}</td>
+                    <td className="px-4 py-2 text-right">{formatMs(result.latency?.p50)}</td>
+                    <td className="px-4 py-2 text-right">{formatMs(result.latency?.p95)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <p className="text-xs text-form-text-gray text-center">
+          Latency is pooled over every measured turn in rated sessions (user stops speaking → first agent audio).
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+'use client'
+
+import { useState } from 'react'
+import { describeApiError } from '@/lib/api-errors'
+
+interface AccessCodePromptProps {
+  onAuthenticated: () => void
+  endpoint?: string  // Session route that takes `{ accessCode }` and sets a cookie
+  label?: string
+}
+
+export default function AccessCodePrompt({ onAuthenticated, endpoint = '/api/auth/session', label = '🔑 Access Code' }: AccessCodePromptProps) {
+  const [accessCode, setAccessCode] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState('')
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError('')
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ accessCode }),
+      })
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}))
+        setError(body.code === 'invalid_access_code' ? body.error : describeApiError(response.status, body))
+        return
+      }
+      setAccessCode('')
+      onAuthenticated()
+    } catch (err) {
+      console.warn('Error creating session:', err)
+      setError('Could not check your access code. Please try again.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={submit} className="bg-form-off-white border border-form-border-light rounded-lg p-4 space-y-2">
+      <label htmlFor="access-code" className="block font-medium text-form-text-dark text-sm">{label}</label>
+      <div className="flex gap-2">
+        <input
+          id="access-code"
+          type="password"
+          value={accessCode}
+          onChange={(e) => setAccessCode(e.target.value)}
+          autoComplete="off"
+          className="flex-1 px-3 py-2 text-sm bg-white border border-form-border-light rounded-lg focus:border-form-gold-muted focus:outline-none"
+        />
+        <button
+          type="submit"
+          disabled={!accessCode || isSubmitting}
+          className="px-4 py-2 text-sm font-medium bg-form-gold-muted hover:bg-form-gold-muted-dark text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? 'Checking...' : 'Continue'}
+        </button>
+      </div>
+      {error && <p className="text-xs text-form-error">{error}</p>}
+    </form>
+  )
+}
@@ -0,0 +1,16 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import AccessCodePrompt from './access-code-prompt'
+
+// Admin sign-in for the /admin page; reloads the server-rendered dashboard once the cookie is set
+export default function AdminAccessPrompt() {
+  const router = useRouter()
+  return (
+    <AccessCodePrompt
+      endpoint="/api/admin/session"
+      label="🔑 Admin Code"
+      onAuthenticated={() => router.refresh()}
+    />
+  )
+}
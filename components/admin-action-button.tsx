@@ -0,0 +1,55 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+interface AdminActionButtonProps {
+  url: string  // Called with DELETE
+  label: string
+  confirmMessage?: string
+  variant?: 'danger' | 'plain'
+}
+
+// One-shot admin action (end room, remove participant, sign out) that refreshes the dashboard
+export default function AdminActionButton({ url, label, confirmMessage, variant = 'danger' }: AdminActionButtonProps) {
+  const router = useRouter()
+  const [isPending, setIsPending] = useState(false)
+  const [error, setError] = useState('')
+
+  const run = async () => {
+    if (confirmMessage && !window.confirm(confirmMessage)) return
+    setIsPending(true)
+    setError('')
+    try {
+      const response = await fetch(url, { method: 'DELETE' })
+      if (!response.ok) {
+        const { error: actionError } = await response.json().catch(() => ({}))
+        throw new Error(actionError || `${label} failed`)
+      }
+      router.refresh()
+    } catch (err) {
+      console.warn(`Error running admin action ${url}:`, err)
+      setError(err instanceof Error ? err.message : `${label} failed`)
+    } finally {
+      setIsPending(false)
+    }
+  }
+
+  return (
+    <span className="inline-flex flex-col items-end">
+      <button
+        type="button"
+        onClick={run}
+        disabled={isPending}
+        className={`px-2 py-1 text-xs font-medium rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+          variant === 'danger'
+            ? 'bg-form-error text-white hover:opacity-90'
+            : 'border border-form-border-light text-form-text-dark hover:bg-form-off-white'
+        }`}
+      >
+        {isPending ? 'Working...' : label}
+      </button>
+      {error && <span className="text-xs text-form-error mt-1">{error}</span>}
+    </span>
+  )
+}
@@ -0,0 +1,19 @@
+import AdminAccessPrompt from './admin-access-prompt'
+
+interface AdminSignInProps {
+  title: string
+}
+
+// Shown by admin-only pages until the admin cookie is set
+export default function AdminSignIn({ title }: AdminSignInProps) {
+  return (
+    <div className="min-h-screen bg-white flex items-center justify-center p-4">
+      <div className="w-full max-w-sm space-y-4">
+        <h1 className="text-2xl font-bold text-form-black text-center">{title}</h1>
+        {process.env.ADMIN_API_SECRET
+          ? <AdminAccessPrompt />
+          : <p className="text-sm text-form-text-gray text-center">Set ADMIN_API_SECRET to enable admin pages.</p>}
+      </div>
+    </div>
+  )
+}
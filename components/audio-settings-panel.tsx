@@ -0,0 +1,102 @@
+'use client'
+
+import { useState } from 'react'
+import { AudioSettings, BITRATE_OPTIONS, DEFAULT_AUDIO_SETTINGS } from '@/lib/audio-settings'
+
+interface AudioSettingsPanelProps {
+  value: AudioSettings
+  onChange: (value: AudioSettings) => void
+  isInCall: boolean
+}
+
+const TOGGLES: { key: 'echoCancellation' | 'noiseSuppression' | 'autoGainControl' | 'dtx' | 'red'; label: string; hint: string }[] = [
+  { key: 'echoCancellation', label: 'Echo cancellation', hint: 'Stops the agent hearing itself through your speakers' },
+  { key: 'noiseSuppression', label: 'Noise suppression', hint: 'Filters steady background noise' },
+  { key: 'autoGainControl', label: 'Auto gain', hint: 'Evens out your mic volume' },
+  { key: 'dtx', label: 'DTX', hint: 'Sends less data while you are silent' },
+  { key: 'red', label: 'RED', hint: 'Redundant audio to survive packet loss' },
+]
+
+export default function AudioSettingsPanel({ value, onChange, isInCall }: AudioSettingsPanelProps) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  return (
+    <div className="bg-white border border-form-border-light rounded-lg overflow-hidden">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-4 py-3 flex items-center justify-between hover:bg-form-off-white transition-colors"
+      >
+        <span className="font-medium text-form-text-dark flex items-center gap-2">
+          ⚙️ Audio Settings
+        </span>
+        <span className="text-form-text-gray">
+          {isOpen ? '▼' : '▶'}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 py-3 border-t border-form-border-light space-y-3">
+          {isInCall && (
+            <p className="text-xs text-form-text-gray">
+              Mic changes apply when you mute and unmute again, or on your next call. Agent volume applies right away.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            {TOGGLES.map(toggle => (
+              <label key={toggle.key} className="flex items-start gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={value[toggle.key]}
+                  onChange={(e) => onChange({ ...value, [toggle.key]: e.target.checked })}
+                  className="mt-0.5 w-4 h-4 text-form-gold-muted border-form-border-light rounded focus:ring-form-gold-muted"
+                />
+                <span className="text-sm text-form-text-dark">
+                  {toggle.label}
+                  <span className="block text-xs text-form-text-gray">{toggle.hint}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <label className="block text-xs text-form-text-dark space-y-1">
+            <span className="block font-medium">Mic bitrate</span>
+            <select
+              value={value.maxBitrate}
+              onChange={(e) => onChange({ ...value, maxBitrate: Number(e.target.value) })}
+              className="w-full px-2 py-1.5 text-sm bg-white border border-form-border-light rounded focus:border-form-gold-muted focus:outline-none"
+            >
+              {BITRATE_OPTIONS.map(bitrate => (
+                <option key={bitrate} value={bitrate}>{bitrate / 1000} kbps</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block text-xs text-form-text-dark space-y-1">
+            <span className="flex items-center justify-between font-medium">
+              <span>Agent volume</span>
+              <span className="text-form-text-gray font-normal">{Math.round(value.agentVolume * 100)}%</span>
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={2}
+              step={0.05}
+              value={value.agentVolume}
+              onChange={(e) => onChange({ ...value, agentVolume: Number(e.target.value) })}
+              className="w-full accent-form-gold-muted"
+            />
+          </label>
+
+          <button
+            type="button"
+            onClick={() => onChange(DEFAULT_AUDIO_SETTINGS)}
+            className="text-xs text-form-gold-muted hover:text-form-gold-muted-dark"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,121 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { MicHealth, createMicHealthMonitor, readLevel } from '@/lib/audio-analysis'
+
+interface AudioVisualizerProps {
+  agentAnalyser: AnalyserNode | null
+  micAnalyser: AnalyserNode | null
+  isMuted: boolean
+}
+
+const WAVEFORM_COLOR = '#b8956a'  // form-gold-muted
+const WAVEFORM_IDLE = '#d9d9d9'   // form-border-light
+
+export default function AudioVisualizer({ agentAnalyser, micAnalyser, isMuted }: AudioVisualizerProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const meterRef = useRef<HTMLDivElement | null>(null)
+  const [micHealth, setMicHealth] = useState<MicHealth>('ok')
+
+  // Agent waveform
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext('2d')
+    if (!canvas || !ctx) return
+
+    const buffer = new Float32Array(agentAnalyser?.fftSize ?? 0)
+    let frame = 0
+
+    const draw = () => {
+      const { width, height } = canvas
+      ctx.clearRect(0, 0, width, height)
+      ctx.lineWidth = 2
+      ctx.beginPath()
+
+      if (agentAnalyser) {
+        agentAnalyser.getFloatTimeDomainData(buffer)
+        ctx.strokeStyle = WAVEFORM_COLOR
+        for (let i = 0; i < buffer.length; i++) {
+          const x = (i / (buffer.length - 1)) * width
+          const y = height / 2 + buffer[i] * (height / 2) * 0.9
+          if (i === 0) ctx.moveTo(x, y)
+          else ctx.lineTo(x, y)
+        }
+      } else {
+        ctx.strokeStyle = WAVEFORM_IDLE
+        ctx.moveTo(0, height / 2)
+        ctx.lineTo(width, height / 2)
+      }
+
+      ctx.stroke()
+      frame = requestAnimationFrame(draw)
+    }
+
+    draw()
+    return () => cancelAnimationFrame(frame)
+  }, [agentAnalyser])
+
+  // Mic level meter + silence/clipping watch
+  useEffect(() => {
+    if (!micAnalyser || isMuted) {
+      setMicHealth('ok')
+      if (meterRef.current) meterRef.current.style.width = '0%'
+      return
+    }
+
+    const buffer = new Float32Array(micAnalyser.fftSize)
+    const monitor = createMicHealthMonitor()
+    let frame = 0
+    let lastHealth: MicHealth = 'ok'
+
+    const tick = () => {
+      const level = readLevel(micAnalyser, buffer)
+      // Speech RMS rarely exceeds ~0.3, so scale it up for a readable meter
+      if (meterRef.current) meterRef.current.style.width = `${Math.min(100, level.rms * 300)}%`
+
+      const health = monitor.update(level, performance.now())
+      if (health !== lastHealth) {
+        lastHealth = health
+        setMicHealth(health)
+      }
+      frame = requestAnimationFrame(tick)
+    }
+
+    tick()
+    return () => cancelAnimationFrame(frame)
+  }, [micAnalyser, isMuted])
+
+  return (
+    <div className="bg-form-off-white border border-form-border-light rounded-lg p-4 space-y-3">
+      <div>
+        <div className="text-xs font-medium text-form-text-dark mb-1">Agent</div>
+        <canvas ref={canvasRef} width={480} height={64} className="w-full h-16 bg-white rounded" />
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between text-xs font-medium text-form-text-dark mb-1">
+          <span>Your mic</span>
+          {isMuted && <span className="text-form-text-gray font-normal">Muted</span>}
+        </div>
+        <div className="h-2 bg-white rounded-full overflow-hidden border border-form-border-light">
+          <div
+            ref={meterRef}
+            className={`h-full rounded-full ${micHealth === 'clipping' ? 'bg-form-error' : 'bg-form-success'}`}
+            style={{ width: '0%' }}
+          />
+        </div>
+      </div>
+
+      {micHealth === 'silent' && (
+        <div className="text-xs text-form-error">
+          ⚠️ We can't hear your microphone. Check that it's connected and not muted in your system settings.
+        </div>
+      )}
+      {micHealth === 'clipping' && (
+        <div className="text-xs text-form-error">
+          ⚠️ Your microphone is too loud and distorting. Move back a little or lower the input volume.
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,94 @@
+'use client'
+
+import { useState } from 'react'
+import { CallMetricsReport } from '@/lib/call-metrics'
+import { PercentileSummary, formatMs } from '@/lib/stats'
+
+interface CallDiagnosticsProps {
+  metrics: CallMetricsReport | null
+}
+
+const QUALITY_COLORS: Record<string, string> = {
+  excellent: 'text-form-success',
+  good: 'text-form-success',
+  poor: 'text-yellow-600',
+  lost: 'text-form-error',
+}
+
+function Row({ label, current, summary, format }: {
+  label: string
+  current: number | null | undefined
+  summary: PercentileSummary | null
+  format: (value: number | null | undefined) => string
+}) {
+  return (
+    <tr className="border-t border-form-border-light">
+      <td className="py-1 pr-2 text-form-text-dark">{label}</td>
+      <td className="py-1 px-2 text-right">{format(current)}</td>
+      <td className="py-1 px-2 text-right">{format(summary?.p50)}</td>
+      <td className="py-1 pl-2 text-right">{format(summary?.p95)}</td>
+    </tr>
+  )
+}
+
+const formatPct = (value: number | null | undefined) => value == null ? '–' : `${value.toFixed(1)}%`
+
+export default function CallDiagnostics({ metrics }: CallDiagnosticsProps) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  const quality = metrics?.qualityChanges[metrics.qualityChanges.length - 1]?.quality
+  const lastLatency = metrics?.turnLatenciesMs[metrics.turnLatenciesMs.length - 1]
+
+  return (
+    <div className="bg-white border border-form-border-light rounded-lg overflow-hidden">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-4 py-3 flex items-center justify-between hover:bg-form-off-white transition-colors"
+      >
+        <span className="font-medium text-form-text-dark flex items-center gap-2">
+          📈 Call Diagnostics
+          {lastLatency !== undefined && (
+            <span className="text-xs text-form-text-gray">(last turn {formatMs(lastLatency)})</span>
+          )}
+        </span>
+        <span className="text-form-text-gray">
+          {isOpen ? '▼' : '▶'}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 py-3 border-t border-form-border-light space-y-2 text-xs text-form-text-gray">
+          <div className="flex items-center justify-between">
+            <span>Connection quality</span>
+            <span className={`font-medium capitalize ${quality ? QUALITY_COLORS[quality] || '' : ''}`}>
+              {quality && quality !== 'unknown' ? quality : '–'}
+            </span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span>Turns measured</span>
+            <span className="font-medium text-form-text-dark">{metrics?.latency?.count ?? 0}</span>
+          </div>
+
+          <table className="w-full">
+            <thead>
+              <tr>
+                <th className="py-1 pr-2 text-left font-medium">Metric</th>
+                <th className="py-1 px-2 text-right font-medium">Latest</th>
+                <th className="py-1 px-2 text-right font-medium">p50</th>
+                <th className="py-1 pl-2 text-right font-medium">p95</th>
+              </tr>
+            </thead>
+            <tbody>
+              <Row label="Turn latency" current={lastLatency} summary={metrics?.latency ?? null} format={formatMs} />
+              <Row label="Round trip" current={metrics?.lastSample?.rttMs} summary={metrics?.rttMs ?? null} format={formatMs} />
+              <Row label="Jitter" current={metrics?.lastSample?.jitterMs} summary={metrics?.jitterMs ?? null} format={formatMs} />
+              <Row label="Packet loss" current={metrics?.lastSample?.packetLossPct} summary={metrics?.packetLossPct ?? null} format={formatPct} />
+            </tbody>
+          </table>
+
+          <p>Turn latency runs from when you stop speaking to the agent&apos;s first audio.</p>
+        </div>
+      )}
+    </div>
+  )
+}
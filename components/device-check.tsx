@@ -0,0 +1,247 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Room } from 'livekit-client'
+import { createAnalyser, readLevel } from '@/lib/audio-analysis'
+import { DeviceSelection, MicStatus, reconcileDeviceSelection, saveDeviceSelection } from '@/lib/device-preferences'
+
+interface DeviceCheckProps {
+  value: DeviceSelection
+  onChange: (value: DeviceSelection) => void
+  status: MicStatus
+  onStatusChange: (status: MicStatus) => void
+  disabled?: boolean
+}
+
+type AudioContextWithSink = AudioContext & { setSinkId?: (id: string) => Promise<void> }
+
+async function queryMicPermission(): Promise<PermissionState | null> {
+  try {
+    const result = await navigator.permissions.query({ name: 'microphone' as PermissionName })
+    return result.state
+  } catch {
+    return null  // Permissions API not supported for microphone (e.g. older Firefox/Safari)
+  }
+}
+
+export default function DeviceCheck({ value, onChange, status, onStatusChange, disabled }: DeviceCheckProps) {
+  const [inputs, setInputs] = useState<MediaDeviceInfo[]>([])
+  const [outputs, setOutputs] = useState<MediaDeviceInfo[]>([])
+  const [isTestingMic, setIsTestingMic] = useState(false)
+  const meterRef = useRef<HTMLDivElement | null>(null)
+  const valueRef = useRef(value)
+  valueRef.current = value
+
+  const refreshDevices = useCallback(async (requestPermissions: boolean) => {
+    if (!navigator.mediaDevices) {
+      onStatusChange('no_device')
+      return
+    }
+
+    try {
+      const permission = await queryMicPermission()
+      if (permission === 'denied') {
+        onStatusChange('denied')
+        return
+      }
+      if (permission !== 'granted' && !requestPermissions) {
+        onStatusChange('prompt')
+        return
+      }
+
+      const [audioInputs, audioOutputs] = await Promise.all([
+        Room.getLocalDevices('audioinput', requestPermissions),
+        Room.getLocalDevices('audiooutput', false),
+      ])
+      setInputs(audioInputs)
+      setOutputs(audioOutputs)
+
+      const next = reconcileDeviceSelection(valueRef.current, audioInputs, audioOutputs)
+      if (next.audioInputId !== valueRef.current.audioInputId || next.audioOutputId !== valueRef.current.audioOutputId) {
+        onChange(next)
+      }
+      onStatusChange(audioInputs.length > 0 ? 'ready' : 'no_device')
+    } catch (err) {
+      console.warn('Device check failed:', err)
+      const denied = err instanceof Error && (err.name === 'NotAllowedError' || err.name === 'SecurityError')
+      onStatusChange(denied ? 'denied' : 'no_device')
+    }
+  }, [onChange, onStatusChange])
+
+  useEffect(() => {
+    refreshDevices(false)
+    const handleDeviceChange = () => refreshDevices(false)
+    navigator.mediaDevices?.addEventListener('devicechange', handleDeviceChange)
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', handleDeviceChange)
+  }, [refreshDevices])
+
+  // Mic test: capture the selected input and drive the level meter
+  useEffect(() => {
+    if (!isTestingMic) return
+
+    let stream: MediaStream | null = null
+    let context: AudioContext | null = null
+    let frame = 0
+    let cancelled = false
+
+    navigator.mediaDevices
+      .getUserMedia({ audio: value.audioInputId ? { deviceId: { exact: value.audioInputId } } : true })
+      .then(mediaStream => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach(t => t.stop())
+          return
+        }
+        stream = mediaStream
+        context = new AudioContext()
+        const analyser = createAnalyser(context)
+        context.createMediaStreamSource(mediaStream).connect(analyser)
+        const buffer = new Float32Array(analyser.fftSize)
+
+        const tick = () => {
+          const { rms } = readLevel(analyser, buffer)
+          if (meterRef.current) meterRef.current.style.width = `${Math.min(100, rms * 300)}%`
+          frame = requestAnimationFrame(tick)
+        }
+        tick()
+      })
+      .catch(err => {
+        console.warn('Mic test failed:', err)
+        setIsTestingMic(false)
+        refreshDevices(false)
+      })
+
+    return () => {
+      cancelled = true
+      cancelAnimationFrame(frame)
+      stream?.getTracks().forEach(t => t.stop())
+      context?.close().catch(() => {})
+      if (meterRef.current) meterRef.current.style.width = '0%'
+    }
+  }, [isTestingMic, value.audioInputId, refreshDevices])
+
+  const playTestTone = async () => {
+    try {
+      const context: AudioContextWithSink = new AudioContext()
+      if (value.audioOutputId && context.setSinkId) {
+        await context.setSinkId(value.audioOutputId)
+      }
+      const oscillator = context.createOscillator()
+      const gain = context.createGain()
+      oscillator.frequency.value = 440
+      gain.gain.setValueAtTime(0.2, context.currentTime)
+      gain.gain.exponentialRampToValueAtTime(0.001, context.currentTime + 0.8)
+      oscillator.connect(gain).connect(context.destination)
+      oscillator.start()
+      oscillator.stop(context.currentTime + 0.8)
+      oscillator.onended = () => context.close().catch(() => {})
+    } catch (err) {
+      console.warn('Speaker test failed:', err)
+    }
+  }
+
+  const select = (next: DeviceSelection) => {
+    saveDeviceSelection(next)
+    onChange(next)
+  }
+
+  return (
+    <div className="bg-form-off-white border border-form-border-light rounded-lg p-4 space-y-3">
+      <h4 className="font-medium text-form-text-dark text-sm">🎧 Audio Setup</h4>
+
+      {status === 'checking' && (
+        <p className="text-xs text-form-text-gray">Checking your audio devices...</p>
+      )}
+
+      {status === 'prompt' && (
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs text-form-text-gray">Allow microphone access to pick and test your devices.</p>
+          <button
+            type="button"
+            onClick={() => refreshDevices(true)}
+            disabled={disabled}
+            className="px-3 py-1.5 text-xs font-medium bg-white border border-form-border-light hover:border-form-gold-muted text-form-text-dark rounded-lg transition-colors disabled:opacity-50"
+          >
+            Allow microphone
+          </button>
+        </div>
+      )}
+
+      {status === 'denied' && (
+        <p className="text-xs text-form-error">
+          Microphone access is blocked. Allow it in your browser&apos;s site settings (the icon next to the address bar), then reload the page.
+        </p>
+      )}
+
+      {status === 'no_device' && (
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs text-form-error">
+            No microphone found. Plug one in or check your system sound settings.
+          </p>
+          <button
+            type="button"
+            onClick={() => refreshDevices(true)}
+            className="px-3 py-1.5 text-xs font-medium bg-white border border-form-border-light hover:border-form-gold-muted text-form-text-dark rounded-lg transition-colors"
+          >
+            Retry
+          </button>
+        </div>
+      )}
+
+      {status === 'ready' && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-form-text-dark space-y-1">
+              <span className="block font-medium">Microphone</span>
+              <select
+                value={value.audioInputId ?? ''}
+                onChange={(e) => select({ ...value, audioInputId: e.target.value })}
+                disabled={disabled}
+                className="w-full px-2 py-1.5 text-sm bg-white border border-form-border-light rounded focus:border-form-gold-muted focus:outline-none"
+              >
+                {inputs.map(device => (
+                  <option key={device.deviceId} value={device.deviceId}>{device.label || 'Microphone'}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-form-text-dark space-y-1">
+              <span className="block font-medium">Speaker</span>
+              <select
+                value={value.audioOutputId ?? ''}
+                onChange={(e) => select({ ...value, audioOutputId: e.target.value })}
+                disabled={disabled || outputs.length === 0}
+                className="w-full px-2 py-1.5 text-sm bg-white border border-form-border-light rounded focus:border-form-gold-muted focus:outline-none disabled:opacity-50"
+              >
+                {outputs.length === 0 && <option value="">System default</option>}
+                {outputs.map(device => (
+                  <option key={device.deviceId} value={device.deviceId}>{device.label || 'Speaker'}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setIsTestingMic(!isTestingMic)}
+              disabled={disabled}
+              className="px-3 py-1.5 text-xs font-medium bg-white border border-form-border-light hover:border-form-gold-muted text-form-text-dark rounded-lg transition-colors disabled:opacity-50"
+            >
+              {isTestingMic ? 'Stop mic test' : 'Test mic'}
+            </button>
+            <div className="flex-1 h-2 bg-white rounded-full overflow-hidden border border-form-border-light">
+              <div ref={meterRef} className="h-full bg-form-success rounded-full" style={{ width: '0%' }} />
+            </div>
+            <button
+              type="button"
+              onClick={playTestTone}
+              disabled={disabled}
+              className="px-3 py-1.5 text-xs font-medium bg-white border border-form-border-light hover:border-form-gold-muted text-form-text-dark rounded-lg transition-colors disabled:opacity-50"
+            >
+              Test speaker
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,42 @@
+'use client'
+
+import { Evaluation } from '@/lib/evaluation'
+import { SessionMetadata } from '@/lib/session'
+import { downloadEvaluationReport } from '@/lib/pdf-report'
+import { ExportFormat, downloadEvaluationExport } from '@/lib/exports'
+
+interface EvaluationExportButtonsProps {
+  evaluation: Evaluation
+  session: SessionMetadata
+  raw?: unknown
+}
+
+const TEXT_FORMATS: [ExportFormat, string][] = [
+  ['json', 'JSON'],
+  ['markdown', 'Markdown'],
+  ['csv', 'CSV'],
+]
+
+export default function EvaluationExportButtons({ evaluation, session, raw }: EvaluationExportButtonsProps) {
+  return (
+    <div className="pt-3 border-t border-form-border-light space-y-2">
+      <button
+        onClick={() => downloadEvaluationReport(evaluation, session)}
+        className="w-full px-4 py-2 bg-form-gold-muted hover:bg-form-gold-muted-dark text-white font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        📥 Download PDF Report
+      </button>
+      <div className="grid grid-cols-3 gap-2">
+        {TEXT_FORMATS.map(([format, label]) => (
+          <button
+            key={format}
+            onClick={() => downloadEvaluationExport(format, evaluation, session, raw)}
+            className="px-3 py-1.5 text-xs font-medium bg-form-off-white hover:bg-form-border-light border border-form-border-light text-form-text-dark rounded-lg transition-colors"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,63 @@
+'use client'
+
+import { EvaluationMetric, MAX_SCORE } from '@/lib/evaluation'
+
+interface EvaluationMetricsProps {
+  title: string
+  metrics: EvaluationMetric[]
+}
+
+function barColor(score: number): string {
+  if (score >= 8) return 'bg-form-success'
+  if (score >= 5) return 'bg-form-gold-muted'
+  return 'bg-form-error'
+}
+
+export default function EvaluationMetrics({ title, metrics }: EvaluationMetricsProps) {
+  if (metrics.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="space-y-3">
+      <h4 className="font-medium text-form-text-dark text-sm">{title}</h4>
+
+      {metrics.map(metric => (
+        <div key={metric.key} className="space-y-1">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-form-text-dark">{metric.label}</span>
+            <span className="font-medium text-form-gold-muted">
+              {metric.score !== null ? `${metric.score}/${MAX_SCORE}` : '–'}
+            </span>
+          </div>
+
+          {/* Score bar - omitted for metrics without a numeric score */}
+          {metric.score !== null && (
+            <div className="h-1.5 bg-form-off-white rounded-full overflow-hidden">
+              <div
+                className={`h-full rounded-full ${barColor(metric.score)}`}
+                style={{ width: `${(metric.score / MAX_SCORE) * 100}%` }}
+              />
+            </div>
+          )}
+
+          {metric.feedback && (
+            <p className="text-xs text-form-text-gray leading-relaxed">{metric.feedback}</p>
+          )}
+
+          {/* Unrecognized fields are shown as-is so new backend metrics need no frontend change */}
+          {metric.details.length > 0 && (
+            <dl className="text-xs text-form-text-gray space-y-0.5">
+              {metric.details.map(detail => (
+                <div key={detail.label} className="flex gap-1">
+                  <dt className="font-medium">{detail.label}:</dt>
+                  <dd>{detail.value}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,205 @@
+'use client'
+
+import { ReactNode, useMemo } from 'react'
+import EvaluationMetrics from './evaluation-metrics'
+import TrainingRecommendations from './training-recommendations'
+import { Evaluation } from '@/lib/evaluation'
+import { ResolvedScenario } from '@/lib/scenarios'
+import { TranscriptHighlight, TranscriptLine } from '@/lib/transcript'
+import { linkFeedbackToTranscript } from '@/lib/transcript-matching'
+
+interface EvaluationSectionsProps {
+  evaluation: Evaluation
+  selectedScenario?: ResolvedScenario | null
+  // When a transcript is given, wins and improvements link to the turn they quote
+  transcript?: TranscriptLine[]
+  onHighlight?: (highlight: TranscriptHighlight) => void
+}
+
+// A bulleted win/improvement; linked entries are buttons so they can be reached by keyboard.
+// The content is phrasing elements only (spans), which is all a <button> may contain.
+function FeedbackItem({ onSelect, children }: { onSelect?: () => void; children: ReactNode }) {
+  return (
+    <li className="text-sm text-form-text-dark leading-relaxed pl-4 relative">
+      <span className="absolute left-0">•</span>
+      {onSelect ? (
+        <button
+          type="button"
+          onClick={onSelect}
+          className="block w-full text-left rounded hover:bg-form-off-white focus:outline-none focus-visible:ring-2 focus-visible:ring-form-gold-muted transition-colors"
+        >
+          {children}
+          <span className="block text-[10px] text-form-gold-muted mt-1">📍 View in transcript</span>
+        </button>
+      ) : (
+        <div>{children}</div>
+      )}
+    </li>
+  )
+}
+
+// Body of the call summary card. Sections without data are skipped, so this also
+// renders partial evaluations while they stream in.
+export default function EvaluationSections({ evaluation, selectedScenario, transcript, onHighlight }: EvaluationSectionsProps) {
+  const links = useMemo(
+    () => transcript && transcript.length > 0 && onHighlight ? linkFeedbackToTranscript(evaluation, transcript) : null,
+    [evaluation, transcript, onHighlight]
+  )
+
+  return (
+    <>
+      {/* No Transcript Error */}
+      {evaluation.error === 'no_transcript' && (
+        <div className="text-sm text-form-text-gray text-center py-4">
+          We didn't capture speech this time. Check mic permissions and try again.
+        </div>
+      )}
+
+      {/* Scenario - what we selected vs. what the agent evaluated */}
+      {(selectedScenario || evaluation.scenario_type) && (
+        <div className="text-xs text-form-text-gray text-center space-y-0.5">
+          {selectedScenario && (
+            <div>
+              <strong className="text-form-text-dark">Selected:</strong> {selectedScenario.label} · {selectedScenario.persona.label} · {selectedScenario.difficulty}
+            </div>
+          )}
+          {evaluation.scenario_type && (
+            <div>
+              <strong className="text-form-text-dark">Evaluated as:</strong> {evaluation.scenario_type}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Overall Score Badge */}
+      {evaluation.overall_score !== null && (
+        <div className="flex items-center justify-center">
+          <div className="bg-form-gold-muted text-white rounded-full w-16 h-16 flex flex-col items-center justify-center">
+            <div className="text-2xl font-bold">{evaluation.overall_score.toFixed(1)}</div>
+            <div className="text-xs">/ 10</div>
+          </div>
+        </div>
+      )}
+
+      {/* Metrics - rendered generically so new backend metrics need no UI change */}
+      <EvaluationMetrics title="Core Metrics" metrics={evaluation.core_metrics} />
+      {evaluation.advanced_metrics.length > 0 && (
+        <div className="pt-3 border-t border-form-border-light">
+          <EvaluationMetrics title="Advanced Metrics" metrics={evaluation.advanced_metrics} />
+        </div>
+      )}
+
+      {/* Top Wins */}
+      {evaluation.top_wins.length > 0 && (
+        <div className="pt-3 border-t border-form-border-light space-y-2">
+          <h4 className="font-medium text-form-text-dark text-sm flex items-center gap-2">
+            ✅ What You Did Well
+          </h4>
+          <ul className="space-y-1">
+            {evaluation.top_wins.map((win, idx) => {
+              const lineId = links?.wins[idx]
+              return (
+                <FeedbackItem
+                  key={idx}
+                  onSelect={lineId ? () => onHighlight?.({ lineId, kind: 'win', title: win.title }) : undefined}
+                >
+                  <strong>{win.title}</strong>
+                  {win.description && <span className="block text-xs mt-1">{win.description}</span>}
+                  {win.citation && (
+                    <span className="block text-xs text-form-text-gray italic mt-1">&ldquo;{win.citation}&rdquo;</span>
+                  )}
+                </FeedbackItem>
+              )
+            })}
+          </ul>
+        </div>
+      )}
+
+      {/* Top Improvements */}
+      {evaluation.top_improvements.length > 0 && (
+        <div className="pt-3 border-t border-form-border-light space-y-2">
+          <h4 className="font-medium text-form-text-dark text-sm flex items-center gap-2">
+            🎯 Focus Areas for Next Call
+          </h4>
+          <ul className="space-y-1">
+            {evaluation.top_improvements.map((improvement, idx) => {
+              const lineId = links?.improvements[idx]
+              return (
+                <FeedbackItem
+                  key={idx}
+                  onSelect={lineId ? () => onHighlight?.({
+                    lineId,
+                    kind: 'improvement',
+                    title: improvement.title,
+                    suggestion: improvement.suggested_alternative,
+                  }) : undefined}
+                >
+                  <strong>{improvement.title}</strong>
+                  {improvement.description && <span className="block text-xs mt-1">{improvement.description}</span>}
+                  {improvement.what_you_said && (
+                    <span className="block text-xs text-form-text-gray mt-1">
+                      <strong>You said:</strong> {improvement.what_you_said}
+                    </span>
+                  )}
+                  {improvement.suggested_alternative && (
+                    <span className="block text-xs text-form-gold-muted mt-1">
+                      <strong>Try instead:</strong> {improvement.suggested_alternative}
+                    </span>
+                  )}
+                </FeedbackItem>
+              )
+            })}
+          </ul>
+        </div>
+      )}
+
+      {/* Training Recommendations (legacy training_links are folded in by normalizeEvaluation) */}
+      <TrainingRecommendations recommendations={evaluation.training_recommendations} />
+
+      {/* Summary */}
+      {evaluation.summary && (
+        <div className="pt-3 border-t border-form-border-light">
+          <h4 className="font-medium text-form-text-dark text-sm mb-2">Summary</h4>
+          <div className="space-y-2">
+            {evaluation.summary.text && (
+              <p className="text-sm text-form-text-dark leading-relaxed">
+                {evaluation.summary.text}
+              </p>
+            )}
+            {evaluation.summary.strengths && (
+              <div>
+                <strong className="text-xs text-form-text-dark">Strengths:</strong>
+                <p className="text-sm text-form-text-dark leading-relaxed mt-1">
+                  {evaluation.summary.strengths}
+                </p>
+              </div>
+            )}
+            {evaluation.summary.growth_areas && (
+              <div>
+                <strong className="text-xs text-form-text-dark">Growth Areas:</strong>
+                <p className="text-sm text-form-text-dark leading-relaxed mt-1">
+                  {evaluation.summary.growth_areas}
+                </p>
+              </div>
+            )}
+            {evaluation.summary.next_practice_focus && (
+              <div>
+                <strong className="text-xs text-form-text-dark">Next Practice Focus:</strong>
+                <p className="text-sm text-form-text-dark leading-relaxed mt-1">
+                  {evaluation.summary.next_practice_focus}
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Error */}
+      {evaluation.error && (
+        <div className="text-sm text-form-error">
+          Error: {evaluation.error}
+        </div>
+      )}
+    </>
+  )
+}
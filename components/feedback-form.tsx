@@ -0,0 +1,86 @@
+'use client'
+
+import { useState } from 'react'
+import RatingScale from './rating-scale'
+import { FEEDBACK_ASPECTS, FEEDBACK_COMMENT_MAX_LENGTH, FeedbackAspect } from '@/lib/feedback'
+
+interface FeedbackFormProps {
+  roomName: string
+}
+
+export default function FeedbackForm({ roomName }: FeedbackFormProps) {
+  const [ratings, setRatings] = useState<Partial<Record<FeedbackAspect, number>>>({})
+  const [comment, setComment] = useState('')
+  const [status, setStatus] = useState<'idle' | 'submitting' | 'submitted'>('idle')
+  const [error, setError] = useState('')
+
+  const isComplete = FEEDBACK_ASPECTS.every(({ key }) => ratings[key] !== undefined)
+
+  const submit = async () => {
+    setStatus('submitting')
+    setError('')
+    try {
+      const response = await fetch('/api/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ roomName, ...ratings, comment }),
+      })
+      if (!response.ok) {
+        const { error: feedbackError } = await response.json().catch(() => ({}))
+        throw new Error(feedbackError || 'Failed to send feedback')
+      }
+      setStatus('submitted')
+    } catch (err) {
+      console.warn('Error submitting feedback:', err)
+      setError(err instanceof Error ? err.message : 'Failed to send feedback')
+      setStatus('idle')
+    }
+  }
+
+  if (status === 'submitted') {
+    return (
+      <div className="bg-form-off-white border border-form-border-light rounded-lg p-4 text-sm text-form-text-dark text-center">
+        Thanks for your feedback!
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-form-off-white border border-form-border-light rounded-lg p-4 space-y-3">
+      <div>
+        <h4 className="font-medium text-form-text-dark text-sm">💬 How was this session?</h4>
+        <p className="text-xs text-form-text-gray">Your feedback helps us improve the roleplays.</p>
+      </div>
+
+      {FEEDBACK_ASPECTS.map(aspect => (
+        <RatingScale
+          key={aspect.key}
+          label={aspect.label}
+          hint={aspect.hint}
+          value={ratings[aspect.key]}
+          onChange={(value) => setRatings(prev => ({ ...prev, [aspect.key]: value }))}
+        />
+      ))}
+
+      <textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        maxLength={FEEDBACK_COMMENT_MAX_LENGTH}
+        rows={3}
+        placeholder="Anything else? (optional)"
+        className="w-full px-3 py-2 text-sm bg-white border border-form-border-light rounded-lg focus:border-form-gold-muted focus:outline-none resize-none"
+      />
+
+      {error && <p className="text-xs text-form-error">{error}</p>}
+
+      <button
+        type="button"
+        onClick={submit}
+        disabled={!isComplete || status === 'submitting'}
+        className="w-full px-4 py-2 text-sm font-medium bg-form-gold-muted hover:bg-form-gold-muted-dark text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {status === 'submitting' ? 'Sending...' : 'Send Feedback'}
+      </button>
+    </div>
+  )
+}
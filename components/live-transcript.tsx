@@ -0,0 +1,95 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { TranscriptHighlight, TranscriptLine } from '@/lib/transcript'
+
+interface LiveTranscriptProps {
+  lines: TranscriptLine[]
+  isLive: boolean
+  highlight?: TranscriptHighlight | null
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+}
+
+export default function LiveTranscript({ lines, isLive, highlight }: LiveTranscriptProps) {
+  const scrollRef = useRef<HTMLDivElement | null>(null)
+  const highlightRef = useRef<HTMLDivElement | null>(null)
+
+  // Follow the conversation while the call is live
+  useEffect(() => {
+    if (isLive && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight
+    }
+  }, [lines, isLive])
+
+  // Bring a line linked from the evaluation into view
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }, [highlight])
+
+  return (
+    <div className="bg-white border border-form-border-light rounded-lg overflow-hidden">
+      <div className="px-4 py-3 flex items-center justify-between border-b border-form-border-light">
+        <span className="font-medium text-form-text-dark flex items-center gap-2">
+          💬 Transcript
+        </span>
+        {isLive && (
+          <span className="flex items-center gap-1 text-xs text-form-error">
+            <span className="w-2 h-2 rounded-full bg-form-error animate-pulse" />
+            Live
+          </span>
+        )}
+      </div>
+
+      <div ref={scrollRef} className="max-h-64 overflow-y-auto px-4 py-3 space-y-2">
+        {lines.length === 0 ? (
+          <p className="text-sm text-form-text-gray text-center py-4">
+            {isLive ? 'Waiting for speech...' : 'No transcript was captured.'}
+          </p>
+        ) : (
+          lines.map(line => {
+            const isHighlighted = !!highlight && highlight.lineId === line.id && line.speaker === 'user'
+
+            return (
+              <div
+                key={`${line.speaker}-${line.id}`}
+                ref={isHighlighted ? highlightRef : undefined}
+                className={`text-sm leading-relaxed rounded transition-colors ${
+                  isHighlighted
+                    ? `px-2 py-1 -mx-2 border-l-2 ${highlight.kind === 'win' ? 'bg-green-50 border-form-success' : 'bg-form-off-white border-form-gold-muted'}`
+                    : ''
+                }`}
+              >
+                <div className="flex items-baseline gap-2">
+                  <span className={`text-xs font-semibold ${line.speaker === 'agent' ? 'text-form-gold-muted' : 'text-form-text-dark'}`}>
+                    {line.speaker === 'agent' ? 'Agent' : 'You'}
+                  </span>
+                  <span className="text-[10px] text-form-text-gray">{formatTime(line.timestamp)}</span>
+                </div>
+                <p className={line.final ? 'text-form-text-dark' : 'text-form-text-gray italic'}>
+                  {line.text}
+                </p>
+
+                {/* Feedback linked to this turn */}
+                {isHighlighted && (
+                  <div className="mt-1 text-xs space-y-0.5">
+                    <div className="font-medium text-form-text-dark">
+                      {highlight.kind === 'win' ? '✅' : '🎯'} {highlight.title}
+                    </div>
+                    {highlight.suggestion && (
+                      <div className="text-form-gold-muted">
+                        <strong>Try instead:</strong> {highlight.suggestion}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )
+          })
+        )}
+      </div>
+    </div>
+  )
+}
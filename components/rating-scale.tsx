@@ -0,0 +1,41 @@
+'use client'
+
+import { RATING_MAX, RATING_MIN } from '@/lib/voice-ratings'
+
+interface RatingScaleProps {
+  label: string
+  hint: string
+  value: number | undefined
+  onChange: (value: number) => void
+}
+
+const SCALE = Array.from({ length: RATING_MAX - RATING_MIN + 1 }, (_, i) => RATING_MIN + i)
+
+export default function RatingScale({ label, hint, value, onChange }: RatingScaleProps) {
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <div>
+        <div className="text-sm text-form-text-dark">{label}</div>
+        <div className="text-xs text-form-text-gray">{hint}</div>
+      </div>
+      <div className="flex gap-1" role="radiogroup" aria-label={label}>
+        {SCALE.map(option => (
+          <button
+            key={option}
+            type="button"
+            role="radio"
+            aria-checked={value === option}
+            onClick={() => onChange(option)}
+            className={`w-8 h-8 text-sm rounded-lg border transition-colors ${
+              value === option
+                ? 'bg-form-gold-muted border-form-gold-muted text-white'
+                : 'bg-white border-form-border-light text-form-text-dark hover:border-form-gold-muted'
+            }`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,80 @@
+'use client'
+
+import { SCENARIOS, DIFFICULTIES, findScenario, ScenarioSelection, ScenarioDifficulty } from '@/lib/scenarios'
+
+interface ScenarioPickerProps {
+  value: ScenarioSelection
+  onChange: (value: ScenarioSelection) => void
+  disabled?: boolean
+}
+
+export default function ScenarioPicker({ value, onChange, disabled }: ScenarioPickerProps) {
+  const scenario = findScenario(value.scenarioId) || SCENARIOS[0]
+  const persona = scenario.personas.find(p => p.id === value.personaId)
+
+  const handleScenarioChange = (scenarioId: string) => {
+    const next = findScenario(scenarioId)
+    if (!next) return
+    // Personas are scenario-specific, so reset to the first one
+    onChange({ ...value, scenarioId: next.id, personaId: next.personas[0].id })
+  }
+
+  return (
+    <div className="bg-form-off-white border border-form-border-light rounded-lg p-4 space-y-3">
+      <h4 className="font-medium text-form-text-dark text-sm">Roleplay Scenario</h4>
+
+      {/* Scenario */}
+      <div className="grid grid-cols-2 gap-2">
+        {SCENARIOS.map(s => (
+          <button
+            key={s.id}
+            type="button"
+            onClick={() => handleScenarioChange(s.id)}
+            disabled={disabled}
+            className={`px-3 py-2 text-sm rounded-lg border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              s.id === scenario.id
+                ? 'bg-form-gold-muted border-form-gold-muted text-white font-medium'
+                : 'bg-white border-form-border-light text-form-text-dark hover:border-form-gold-muted'
+            }`}
+          >
+            {s.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-form-text-gray">{scenario.description}</p>
+
+      {/* Difficulty + Persona */}
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs text-form-text-dark space-y-1">
+          <span className="block font-medium">Difficulty</span>
+          <select
+            value={value.difficulty}
+            onChange={(e) => onChange({ ...value, difficulty: e.target.value as ScenarioDifficulty })}
+            disabled={disabled}
+            className="w-full px-2 py-1.5 text-sm bg-white border border-form-border-light rounded focus:border-form-gold-muted focus:outline-none"
+          >
+            {DIFFICULTIES.map(d => (
+              <option key={d.id} value={d.id}>{d.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-form-text-dark space-y-1">
+          <span className="block font-medium">Persona</span>
+          <select
+            value={value.personaId}
+            onChange={(e) => onChange({ ...value, personaId: e.target.value })}
+            disabled={disabled}
+            className="w-full px-2 py-1.5 text-sm bg-white border border-form-border-light rounded focus:border-form-gold-muted focus:outline-none"
+          >
+            {scenario.personas.map(p => (
+              <option key={p.id} value={p.id}>{p.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      {persona && (
+        <p className="text-xs text-form-text-gray">{persona.description}</p>
+      )}
+    </div>
+  )
+}
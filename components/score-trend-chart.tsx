@@ -0,0 +1,65 @@
+'use client'
+
+import { MAX_SCORE } from '@/lib/evaluation'
+
+export interface TrendPoint {
+  timestamp: number
+  score: number
+}
+
+interface ScoreTrendChartProps {
+  points: TrendPoint[]  // oldest first
+}
+
+const WIDTH = 320
+const HEIGHT = 120
+const PADDING = { top: 8, right: 8, bottom: 18, left: 22 }
+
+export default function ScoreTrendChart({ points }: ScoreTrendChartProps) {
+  if (points.length === 0) {
+    return (
+      <p className="text-xs text-form-text-gray text-center py-4">
+        No scores recorded yet.
+      </p>
+    )
+  }
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom
+  // Evenly spaced by session rather than by time, so bursts of practice stay readable
+  const x = (idx: number) => PADDING.left + (points.length === 1 ? plotWidth / 2 : (idx / (points.length - 1)) * plotWidth)
+  const y = (score: number) => PADDING.top + plotHeight - (score / MAX_SCORE) * plotHeight
+
+  const path = points.map((p, idx) => `${idx === 0 ? 'M' : 'L'}${x(idx)},${y(p.score)}`).join(' ')
+  const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString([], { month: 'short', day: 'numeric' })
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Score trend">
+      {/* Gridlines */}
+      {[0, 5, 10].map(tick => (
+        <g key={tick}>
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#d9d9d9" strokeWidth={0.5} />
+          <text x={PADDING.left - 4} y={y(tick) + 3} textAnchor="end" fontSize={8} fill="#999999">{tick}</text>
+        </g>
+      ))}
+
+      <path d={path} fill="none" stroke="#b8956a" strokeWidth={2} strokeLinejoin="round" />
+
+      {points.map((p, idx) => (
+        <circle key={idx} cx={x(idx)} cy={y(p.score)} r={3} fill="#b8956a">
+          <title>{`${formatDate(p.timestamp)}: ${p.score}/${MAX_SCORE}`}</title>
+        </circle>
+      ))}
+
+      {/* First and last dates */}
+      <text x={x(0)} y={HEIGHT - 4} textAnchor={points.length === 1 ? 'middle' : 'start'} fontSize={8} fill="#999999">
+        {formatDate(points[0].timestamp)}
+      </text>
+      {points.length > 1 && (
+        <text x={x(points.length - 1)} y={HEIGHT - 4} textAnchor="end" fontSize={8} fill="#999999">
+          {formatDate(points[points.length - 1].timestamp)}
+        </text>
+      )}
+    </svg>
+  )
+}
@@ -0,0 +1,199 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import EvaluationSections from './evaluation-sections'
+import EvaluationExportButtons from './evaluation-export-buttons'
+import LiveTranscript from './live-transcript'
+import ScoreTrendChart, { TrendPoint } from './score-trend-chart'
+import { SessionRecord, deleteSession, listSessions } from '@/lib/session-history'
+import { formatDuration, formatSessionDate } from '@/lib/session'
+import { formatMs } from '@/lib/stats'
+import { TranscriptHighlight } from '@/lib/transcript'
+
+interface SessionHistoryProps {
+  refreshKey: number  // bump to reload after a session is saved
+}
+
+const OVERALL = 'overall'
+
+export default function SessionHistory({ refreshKey }: SessionHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [sessions, setSessions] = useState<SessionRecord[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [trendMetric, setTrendMetric] = useState(OVERALL)
+  const [error, setError] = useState('')
+  const [highlight, setHighlight] = useState<TranscriptHighlight | null>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+    listSessions()
+      .then(records => {
+        setSessions(records)
+        setError('')
+      })
+      .catch(err => {
+        console.warn('Error loading session history:', err)
+        setError('Session history is not available in this browser.')
+      })
+  }, [isOpen, refreshKey])
+
+  // Every metric seen across sessions, so the backend can add new ones freely
+  const metricOptions = useMemo(() => {
+    const options = new Map<string, string>([[OVERALL, 'Overall Score']])
+    sessions.forEach(record => {
+      record.evaluation?.core_metrics.forEach(m => options.set(`core.${m.key}`, m.label))
+      record.evaluation?.advanced_metrics.forEach(m => options.set(`advanced.${m.key}`, m.label))
+    })
+    return Array.from(options.entries())
+  }, [sessions])
+
+  const trendPoints = useMemo<TrendPoint[]>(() => {
+    const [group, key] = trendMetric.split('.')
+    return sessions
+      .slice()
+      .reverse()
+      .flatMap(record => {
+        const evaluation = record.evaluation
+        if (!evaluation) return []
+        const score = trendMetric === OVERALL
+          ? evaluation.overall_score
+          : (group === 'core' ? evaluation.core_metrics : evaluation.advanced_metrics).find(m => m.key === key)?.score ?? null
+        return score === null ? [] : [{ timestamp: record.session.startedAt ?? record.savedAt, score }]
+      })
+  }, [sessions, trendMetric])
+
+  const selected = sessions.find(record => record.id === selectedId) || null
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteSession(id)
+      setSessions(prev => prev.filter(record => record.id !== id))
+      if (selectedId === id) setSelectedId(null)
+    } catch (err) {
+      console.warn('Error deleting session:', err)
+    }
+  }
+
+  return (
+    <div className="bg-white border border-form-border-light rounded-lg overflow-hidden">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-4 py-3 flex items-center justify-between hover:bg-form-off-white transition-colors"
+      >
+        <span className="font-medium text-form-text-dark flex items-center gap-2">
+          🕘 Session History
+        </span>
+        <span className="text-form-text-gray">
+          {isOpen ? '▼' : '▶'}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 py-3 border-t border-form-border-light space-y-4">
+          {error && <p className="text-sm text-form-error">{error}</p>}
+
+          {!error && sessions.length === 0 && (
+            <p className="text-sm text-form-text-gray text-center py-4">
+              No past sessions yet. Finish a call to see it here.
+            </p>
+          )}
+
+          {sessions.length > 0 && !selected && (
+            <>
+              {/* Score trend */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <h4 className="font-medium text-form-text-dark text-sm">Score Trend</h4>
+                  <select
+                    value={trendMetric}
+                    onChange={(e) => setTrendMetric(e.target.value)}
+                    className="px-2 py-1 text-xs bg-white border border-form-border-light rounded focus:border-form-gold-muted focus:outline-none"
+                  >
+                    {metricOptions.map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <ScoreTrendChart points={trendPoints} />
+              </div>
+
+              {/* Past sessions */}
+              <ul className="divide-y divide-form-border-light border-t border-form-border-light">
+                {sessions.map(record => (
+                  <li key={record.id} className="flex items-center justify-between gap-2 py-2">
+                    <button
+                      onClick={() => {
+                        setSelectedId(record.id)
+                        setHighlight(null)
+                      }}
+                      className="flex-1 text-left hover:text-form-gold-muted transition-colors"
+                    >
+                      <div className="text-sm text-form-text-dark">
+                        {record.session.scenario?.label || record.evaluation?.scenario_type || 'Roleplay'}
+                      </div>
+                      <div className="text-xs text-form-text-gray">
+                        {formatSessionDate(record.session.startedAt)} · {formatDuration(record.session.durationMs)}
+                        {record.session.metrics?.latency && ` · ${formatMs(record.session.metrics.latency.p50)} p50`}
+                      </div>
+                    </button>
+                    <span className="text-sm font-medium text-form-gold-muted">
+                      {record.evaluation?.overall_score != null ? `${record.evaluation.overall_score.toFixed(1)}/10` : '–'}
+                    </span>
+                    <button
+                      onClick={() => handleDelete(record.id)}
+                      className="text-xs text-form-text-gray hover:text-form-error"
+                      aria-label="Delete session"
+                    >
+                      ✕
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+
+          {/* Reopened session */}
+          {selected && (
+            <div className="space-y-4">
+              <button
+                onClick={() => setSelectedId(null)}
+                className="text-xs text-form-gold-muted hover:text-form-gold-muted-dark"
+              >
+                ← Back to history
+              </button>
+              <div className="text-xs text-form-text-gray text-center">
+                {formatSessionDate(selected.session.startedAt)} · {formatDuration(selected.session.durationMs)}
+                {selected.session.metrics?.latency && (
+                  <div>
+                    Turn latency {formatMs(selected.session.metrics.latency.p50)} p50 · {formatMs(selected.session.metrics.latency.p95)} p95
+                    ({selected.session.metrics.latency.count} turns)
+                  </div>
+                )}
+              </div>
+
+              {selected.evaluation ? (
+                <>
+                  <EvaluationSections
+                    evaluation={selected.evaluation}
+                    selectedScenario={selected.session.scenario}
+                    transcript={selected.transcript}
+                    onHighlight={setHighlight}
+                  />
+                  <EvaluationExportButtons evaluation={selected.evaluation} session={selected.session} raw={selected.raw} />
+                </>
+              ) : (
+                <p className="text-sm text-form-text-gray text-center py-2">
+                  No evaluation was recorded for this session.
+                </p>
+              )}
+
+              {selected.transcript.length > 0 && (
+                <LiveTranscript lines={selected.transcript} isLive={false} highlight={highlight} />
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
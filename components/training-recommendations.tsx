@@ -1,13 +1,6 @@
 'use client'
 
-interface TrainingRecommendation {
-  course: string
-  module: string
-  topic: string
-  url: string
-  section_note: string
-  reason: string
-}
+import { TrainingRecommendation } from '@/lib/evaluation'
 
 interface TrainingRecommendationsProps {
   recommendations: TrainingRecommendation[]
@@ -29,10 +22,11 @@ export default function TrainingRecommendations({ recommendations }: TrainingRec
       </p>
       
       <div className="space-y-3">
+        {/* Legacy training_links may have no URL, so the href is optional */}
         {recommendations.map((rec, idx) => (
           <a 
             key={idx}
-            href={rec.url}
+            href={rec.url || undefined}
             target="_blank"
             rel="noopener noreferrer"
             className="block p-3 bg-form-off-white hover:bg-form-gold-light border border-form-border-light hover:border-form-gold-muted rounded-lg transition-all duration-200 group"
@@ -40,9 +34,11 @@ export default function TrainingRecommendations({ recommendations }: TrainingRec
             <div className="space-y-2">
               {/* Course Badge */}
               <div className="flex items-start justify-between gap-2">
-                <span className="text-[10px] font-semibold text-form-gold-muted bg-white px-2 py-1 rounded uppercase tracking-wide">
-                  {rec.course}
-                </span>
+                {rec.course && (
+                  <span className="text-[10px] font-semibold text-form-gold-muted bg-white px-2 py-1 rounded uppercase tracking-wide">
+                    {rec.course}
+                  </span>
+                )}
                 <span className="text-form-gold-muted group-hover:translate-x-1 transition-transform">
                   →
                 </span>
@@ -0,0 +1,35 @@
+'use client'
+
+import { Loader2, Mic, Volume2 } from 'lucide-react'
+import { TurnState } from '@/lib/agent-presence'
+
+interface TurnIndicatorProps {
+  turn: TurnState
+}
+
+export default function TurnIndicator({ turn }: TurnIndicatorProps) {
+  if (turn === 'idle') return null
+
+  return (
+    <div className="flex items-center gap-2 ml-4 text-form-gold-muted" aria-live="polite">
+      {turn === 'agent_speaking' && (
+        <>
+          <Volume2 className="w-4 h-4" />
+          <span className="text-sm">Agent speaking...</span>
+        </>
+      )}
+      {turn === 'agent_thinking' && (
+        <>
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span className="text-sm">Agent thinking...</span>
+        </>
+      )}
+      {turn === 'user_speaking' && (
+        <>
+          <Mic className="w-4 h-4 text-form-success" />
+          <span className="text-sm text-form-success">You&apos;re speaking</span>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,10 +1,33 @@
 'use client'
 
-import { useState, useEffect, useCallback, useRef } from 'react'
-import { Room, RoomEvent, Track, RemoteParticipant } from 'livekit-client'
-import { Mic, MicOff, Phone, PhoneOff, Volume2, VolumeX } from 'lucide-react'
-import TrainingRecommendations from './training-recommendations'
-import jsPDF from 'jspdf';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { DisconnectReason, LocalAudioTrack, LocalParticipant, Room, RoomEvent, Track, TrackEvent } from 'livekit-client'
+import { Mic, MicOff, Phone, PhoneOff } from 'lucide-react'
+import ScenarioPicker from './scenario-picker'
+import EvaluationSections from './evaluation-sections'
+import EvaluationExportButtons from './evaluation-export-buttons'
+import SessionHistory from './session-history'
+import AudioVisualizer from './audio-visualizer'
+import DeviceCheck from './device-check'
+import AudioSettingsPanel from './audio-settings-panel'
+import LiveTranscript from './live-transcript'
+import TurnIndicator from './turn-indicator'
+import CallDiagnostics from './call-diagnostics'
+import VoiceRatingForm from './voice-rating-form'
+import FeedbackForm from './feedback-form'
+import AccessCodePrompt from './access-code-prompt'
+import { DEFAULT_SCENARIO_SELECTION, ResolvedScenario, ScenarioSelection } from '@/lib/scenarios'
+import { TranscriptHighlight, TranscriptLine, mergeTranscriptLine, mergeTranscriptLines } from '@/lib/transcript'
+import { PROTOCOL_VERSION, MessageRouter, createMessageRouter, sendMessage } from '@/lib/data-protocol'
+import { Evaluation, normalizeEvaluation } from '@/lib/evaluation'
+import { SessionMetadata } from '@/lib/session'
+import { saveSession } from '@/lib/session-history'
+import { tapMediaElement, tapMediaStreamTrack } from '@/lib/audio-analysis'
+import { AudioSettings, DEFAULT_AUDIO_SETTINGS, captureSettingsChanged, loadAudioSettings, micCaptureOptions, micPublishOptions, publishSettingsChanged, saveAudioSettings } from '@/lib/audio-settings'
+import { AGENT_JOIN_TIMEOUT_MS, AgentState, AgentStatus, deriveTurnState, isAgentParticipant, readAgentState } from '@/lib/agent-presence'
+import { CallMetricsCollector, CallMetricsReport, QUALITY_SAMPLE_INTERVAL_MS, createCallMetricsCollector, createQualitySampler } from '@/lib/call-metrics'
+import { describeApiError } from '@/lib/api-errors'
+import { DEFAULT_DEVICE_SELECTION, DeviceSelection, MicStatus, isMicBlocking, loadDeviceSelection } from '@/lib/device-preferences'
 
 // Debug flag for diagnostics (set window.__CALL_DEBUG__ = true in console to enable)
 declare global {
@@ -22,78 +45,432 @@ function safeDisconnect(room: Room, reason: string): Promise<void> {
   return room.disconnect()
 }
 
-// Initialize debug flags
-if (typeof window !== 'undefined') {
-  if (window.__CALL_DEBUG__ === undefined) window.__CALL_DEBUG__ = false
-  if (window.__EVAL_DEBUG__ === undefined) window.__EVAL_DEBUG__ = false
-}
-
-// Evaluation result type
-interface TrainingRecommendation {
-  course: string
-  module: string
-  topic: string
+// Comprehensive evaluation takes 30-40 seconds for longer calls (gpt-4o-mini + detailed prompt + training mapping)
+const EVALUATION_GRACE_WINDOW_MS = 45000
+// After the grace window, keep checking the evaluation store for a late result
+const EVALUATION_RECOVERY_INTERVAL_MS = 10000
+const EVALUATION_RECOVERY_MAX_ATTEMPTS = 12
+
+// Disconnects after which the room (and the agent in it) may still exist, so rejoining is offered.
+// LiveKit has already given up on its own reconnect attempts when these reach us.
+const REJOINABLE_DISCONNECT_REASONS = new Set<DisconnectReason | undefined>([
+  undefined,
+  DisconnectReason.UNKNOWN_REASON,
+  DisconnectReason.SERVER_SHUTDOWN,
+  DisconnectReason.STATE_MISMATCH,
+  DisconnectReason.JOIN_FAILURE,
+  DisconnectReason.MIGRATION,
+  DisconnectReason.SIGNAL_CLOSE,
+])
+
+type ConnectionStatus = 'disconnected' | 'connected' | 'reconnecting' | 'dropped' | 'processing'
+
+// Token minted by /api/voice-bot/token for the current room
+interface TokenGrant {
+  room: string
+  token: string
   url: string
-  section_note: string
-  reason: string
-}
-
-interface TopWin {
-  title: string
-  description?: string
-  citation?: string
+  scenario: ResolvedScenario | null
+  voiceTest: boolean
+  expiresAt: number
 }
 
-interface TopImprovement {
-  title: string
-  description?: string
-  what_you_said?: string
-  suggested_alternative?: string
-  impact?: string
-}
+// Fetch a new token this long before the current one expires
+const TOKEN_REFRESH_MARGIN_MS = 60000
 
-interface SummaryObject {
-  strengths?: string
-  growth_areas?: string
-  next_practice_focus?: string
-}
-
-interface EvaluationResult {
-  overall_score?: number
-  scores?: {
-    rapport_building: number
-    objection_handling: number
-    tone_confidence: number
-  }
-  core_metrics?: Record<string, any>
-  advanced_metrics?: Record<string, any>
-  top_wins?: (string | TopWin)[]  // Support both string and object formats
-  top_improvements?: (string | TopImprovement)[]  // Support both string and object formats
-  training_links?: string[]  // Legacy support
-  training_recommendations?: TrainingRecommendation[]  // New format with URLs
-  summary?: string | SummaryObject  // Support both string and object formats
-  error?: string
-  scenario_type?: string; // Added for PDF report
+// Initialize debug flags
+if (typeof window !== 'undefined') {
+  if (window.__CALL_DEBUG__ === undefined) window.__CALL_DEBUG__ = false
+  if (window.__EVAL_DEBUG__ === undefined) window.__EVAL_DEBUG__ = false
 }
 
 export default function VoiceBotInterface() {
   const [room, setRoom] = useState<Room | null>(null)
-  const [connectionStatus, setConnectionStatus] = useState<'disconnected' | 'connected' | 'processing'>('disconnected')
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('disconnected')
   const [isMuted, setIsMuted] = useState(false)
-  const [isAgentSpeaking, setIsAgentSpeaking] = useState(false)
+  const [agentState, setAgentState] = useState<AgentState | null>(null)
+  const [audibleSpeakers, setAudibleSpeakers] = useState({ agent: false, user: false })
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string>('')
   const [evaluationEnabled, setEvaluationEnabled] = useState(false)
-  const [evaluationResult, setEvaluationResult] = useState<EvaluationResult | null>(null)
+  const [evaluationResult, setEvaluationResult] = useState<Evaluation | null>(null)
   const [isEvaluating, setIsEvaluating] = useState(false)
   const [showSummary, setShowSummary] = useState(false)
-  const [evalDone, setEvalDone] = useState(false)
+  const [evaluationWaitMs, setEvaluationWaitMs] = useState(0)
+  const [pendingEvaluationRoom, setPendingEvaluationRoom] = useState<string | null>(null)
+  const [evaluationProgress, setEvaluationProgress] = useState<{ stage: string; percent: number | null } | null>(null)
+  const [partialEvaluation, setPartialEvaluation] = useState<Evaluation | null>(null)
+  const [scenarioSelection, setScenarioSelection] = useState<ScenarioSelection>(DEFAULT_SCENARIO_SELECTION)
+  const [activeScenario, setActiveScenario] = useState<ResolvedScenario | null>(null)
+  const [transcript, setTranscript] = useState<TranscriptLine[]>([])
+  const [transcriptHighlight, setTranscriptHighlight] = useState<TranscriptHighlight | null>(null)
+  const [callStartedAt, setCallStartedAt] = useState<number | null>(null)
+  const [callEndedAt, setCallEndedAt] = useState<number | null>(null)
+  const [historyVersion, setHistoryVersion] = useState(0)
+  const [agentAnalyser, setAgentAnalyser] = useState<AnalyserNode | null>(null)
+  const [micAnalyser, setMicAnalyser] = useState<AnalyserNode | null>(null)
+  const [deviceSelection, setDeviceSelection] = useState<DeviceSelection>(DEFAULT_DEVICE_SELECTION)
+  const [micStatus, setMicStatus] = useState<MicStatus>('checking')
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(DEFAULT_AUDIO_SETTINGS)
+  const [callAudioSettings, setCallAudioSettings] = useState<AudioSettings | null>(null)
+  const [agentStatus, setAgentStatus] = useState<AgentStatus>('waiting')
+  const [agentError, setAgentError] = useState('')
+  const [callMetrics, setCallMetrics] = useState<CallMetricsReport | null>(null)
+  const [authRequired, setAuthRequired] = useState(false)
+  const [metricsCollector] = useState<CallMetricsCollector>(createCallMetricsCollector)  // Lazy: one per component, not per render
+  const [isVoiceTest, setIsVoiceTest] = useState(false)  // Blind A/B voice test call (the config itself stays server-side)
+  const [tokenExpiresAt, setTokenExpiresAt] = useState<number | null>(null)
 
   const remoteAudioRef = useRef<HTMLAudioElement | null>(null)
   const audioContextRef = useRef<AudioContext | null>(null)
   const audioSourceRef = useRef<MediaElementAudioSourceNode | null>(null)
   const gainNodeRef = useRef<GainNode | null>(null)
-  const dataChannelHandlerRef = useRef<((payload: Uint8Array, participant?: any) => void) | null>(null)
+  const audioSettingsRef = useRef<AudioSettings>(DEFAULT_AUDIO_SETTINGS)  // Read by room event handlers
+  const messageRouterRef = useRef<MessageRouter | null>(null)
+  const roomNameRef = useRef<string | null>(null)
+  // Identity and scenario of the current call, reused when rejoining after a dropped connection
+  const participantNameRef = useRef<string | null>(null)
+  const callSelectionRef = useRef<ScenarioSelection>(DEFAULT_SCENARIO_SELECTION)
+  const micTapRef = useRef<MediaStreamAudioSourceNode | null>(null)
+  const micTrackSettingsRef = useRef<AudioSettings | null>(null)  // Settings the published mic track was created with
+  const agentAutoRedispatchedRef = useRef(false)  // The watchdog redispatches on its own only once per call
+  const tokenGrantRef = useRef<TokenGrant | null>(null)  // Latest token for the call, reused by a rejoin while still valid
+  const endEndedCallRef = useRef<() => void>(() => {})  // Latest endEndedCall, for the room's Disconnected handler
+  // Refs (not state) so the wait in `disconnect` sees updates made after it started
+  const evalDoneRef = useRef(false)
+  const evaluationRawRef = useRef<unknown>(null)  // Kept for the JSON export
+  const evaluationWaiterRef = useRef<((received: boolean) => void) | null>(null)
+  const evaluationSkippedRef = useRef(false)
+  // Partial sections accumulate across evaluation_progress messages
+  const partialEvaluationRawRef = useRef<Record<string, unknown>>({})
+
+  const applyEvaluation = useCallback((raw: unknown) => {
+    const { evaluation, warnings } = normalizeEvaluation(raw)
+    if (warnings.length > 0) {
+      console.warn('[EVALUATION_WARNINGS]', warnings)
+    }
+    evalDoneRef.current = true
+    evaluationRawRef.current = raw
+    setIsEvaluating(false)
+    setEvaluationResult(evaluation)
+    setShowSummary(true)
+    setPendingEvaluationRoom(null)
+    setEvaluationProgress(null)
+    setPartialEvaluation(null)
+    evaluationWaiterRef.current?.(true)
+  }, [])
+
+  // Fetch a late evaluation the agent stored after our grace window expired
+  const recoverEvaluation = useCallback(async (roomName: string): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/evaluations/${encodeURIComponent(roomName)}`)
+      if (!response.ok) return false
+
+      const { evaluation } = await response.json()
+      console.log('[EVALUATION_RECOVERED]', roomName)
+      applyEvaluation(evaluation)
+      return true
+    } catch (err) {
+      console.warn('Error recovering evaluation:', err)
+      return false
+    }
+  }, [applyEvaluation])
+
+  // Mint a token for this room and remember it for refreshes and rejoins
+  const fetchTokenGrant = useCallback(async (roomName: string, participantName: string, selection: ScenarioSelection): Promise<TokenGrant> => {
+    const tokenResponse = await fetch('/api/voice-bot/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ participantName, roomName, scenario: selection }),
+    })
+
+    if (!tokenResponse.ok) {
+      const body = await tokenResponse.json().catch(() => ({}))
+      if (tokenResponse.status === 401) setAuthRequired(true)
+      throw new Error(describeApiError(tokenResponse.status, body))
+    }
+
+    const { token, url, scenario, voiceTest, expiresAt } = await tokenResponse.json()
+    const grant: TokenGrant = {
+      room: roomName,
+      token,
+      url,
+      scenario: scenario || null,
+      voiceTest: voiceTest === true,
+      expiresAt: typeof expiresAt === 'number' ? expiresAt : 0,
+    }
+    tokenGrantRef.current = grant
+    setTokenExpiresAt(grant.expiresAt || null)
+    return grant
+  }, [])
+
+  // Fetch a token, wire up room events and connect. Shared by the first join and by a rejoin
+  // of the same room after the connection dropped.
+  const joinRoom = useCallback(async (roomName: string, participantName: string, selection: ScenarioSelection, startMuted: boolean) => {
+    // Reuse the refreshed token when rejoining, otherwise mint one for this room
+    const cached = tokenGrantRef.current
+    const { token, url, scenario, voiceTest } = cached && cached.room === roomName && cached.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()
+      ? cached
+      : await fetchTokenGrant(roomName, participantName, selection)
+    setActiveScenario(scenario)
+    setIsVoiceTest(voiceTest)
+
+    const newRoom = new Room()
+    setAgentStatus('waiting')
+
+    newRoom.on(RoomEvent.Connected, () => {
+      setCallStartedAt(prev => prev ?? Date.now())  // A rejoin continues the same call
+      setConnectionStatus('connected')
+      setIsLoading(false)
+    })
+
+    newRoom.on(RoomEvent.Disconnected, (reason) => {
+      if (reason === DisconnectReason.CLIENT_INITIATED) {
+        // Our own hangup; `disconnect` does the rest
+        setConnectionStatus('disconnected')
+        return
+      }
+      if (!REJOINABLE_DISCONNECT_REASONS.has(reason)) {
+        // Ended elsewhere (e.g. an admin ended the room or removed us): the call is over
+        console.warn('[CALL_ENDED_REMOTELY]', reason !== undefined ? DisconnectReason[reason] : 'unknown')
+        endEndedCallRef.current()
+        return
+      }
+      // Keep the call state (transcript, audio element, evaluation flag) so the user can rejoin
+      console.warn('[CONNECTION_LOST]', reason !== undefined ? DisconnectReason[reason] : 'unknown')
+      setRoom(null)
+      setAgentState(null)
+      setAudibleSpeakers({ agent: false, user: false })
+      setMicAnalyser(null)
+      setConnectionStatus(status => status === 'processing' ? status : 'dropped')
+    })
+
+    // Agent presence for the join watchdog (kind/attributes, not just identity)
+    let lastAgentState: AgentState | null = null
+    const updateAgentPresence = () => {
+      const agent = Array.from(newRoom.remoteParticipants.values()).find(isAgentParticipant)
+      const state = agent ? readAgentState(agent) : null
+      setAgentState(state)
+      // Other attribute changes re-run this while the state is still `speaking`; only the switch counts
+      if (state === 'speaking' && lastAgentState !== 'speaking') {
+        metricsCollector.agentSpeaking(true)
+        setCallMetrics(metricsCollector.report())
+      }
+      lastAgentState = state
+      if (agent) {
+        setAgentStatus('present')
+        setAgentError('')
+      } else {
+        setAgentStatus(status => status === 'present' ? 'waiting' : status)
+      }
+    }
+    newRoom.on(RoomEvent.ParticipantConnected, updateAgentPresence)
+    newRoom.on(RoomEvent.ParticipantDisconnected, updateAgentPresence)
+    newRoom.on(RoomEvent.ParticipantAttributesChanged, updateAgentPresence)
+
+    // LiveKit retries on its own first; reflect that instead of looking frozen
+    newRoom.on(RoomEvent.SignalReconnecting, () => {
+      console.warn('[RECONNECTING] signal')
+      setConnectionStatus(status => status === 'connected' ? 'reconnecting' : status)
+    })
+
+    newRoom.on(RoomEvent.Reconnecting, () => {
+      console.warn('[RECONNECTING] media')
+      setConnectionStatus(status => status === 'connected' ? 'reconnecting' : status)
+    })
+
+    newRoom.on(RoomEvent.Reconnected, () => {
+      console.log('[RECONNECTED]')
+      setConnectionStatus(status => status === 'reconnecting' ? 'connected' : status)
+    })
+
+    newRoom.on(RoomEvent.TrackSubscribed, async (track, publication, participant) => {
+      if (track.kind === Track.Kind.Audio) {
+        // Use pre-created audio element (created during button click for iOS compatibility)
+        const audioEl = remoteAudioRef.current
+        if (!audioEl) {
+          console.error('Audio element not found')
+          return
+        }
+
+        try {
+          track.attach(audioEl)
+
+          // Route agent audio through the AudioContext once per element (gain + waveform tap)
+          if (audioContextRef.current && !audioSourceRef.current) {
+            try {
+              const { source, gain, analyser } = tapMediaElement(audioContextRef.current, audioEl)
+              audioSourceRef.current = source
+              gainNodeRef.current = gain
+              gain.gain.value = audioSettingsRef.current.agentVolume
+              setAgentAnalyser(analyser)
+            } catch (err) {
+              console.warn('Failed to tap agent audio, playing without visualizer:', err)
+            }
+          }
+
+          // Resume audio context if suspended (non-blocking for iOS)
+          if (audioContextRef.current?.state === 'suspended') {
+            audioContextRef.current.resume().catch(err => {
+              console.warn('[iOS] AudioContext resume failed:', err)
+            })
+          }
+
+          await audioEl.play()
+
+          if (isAgentParticipant(participant) && window.__CALL_DEBUG__) {
+            console.log('[READY_FOR_USER]')
+          }
+        } catch (err) {
+          console.warn('Audio playback error:', err)
+        }
+      }
+    })
+
+    newRoom.on(RoomEvent.TrackUnsubscribed, (track) => {
+      try {
+        const el = remoteAudioRef.current
+        if (el) track.detach(el)
+      } catch (err) {
+        console.warn('Error detaching track:', err)
+      }
+    })
+
+    // Turn indicator: who is audible right now, plus the agent's own listening/thinking/speaking state
+    newRoom.on(RoomEvent.ActiveSpeakersChanged, (speakers) => {
+      const audible = {
+        agent: speakers.some(p => !p.isLocal && isAgentParticipant(p)),
+        user: speakers.some(p => p.isLocal),
+      }
+      setAudibleSpeakers(audible)
+
+      // Turn latency: user goes quiet -> first agent audio
+      metricsCollector.userSpeaking(audible.user)
+      metricsCollector.agentSpeaking(audible.agent)
+      setCallMetrics(metricsCollector.report())
+    })
+
+    newRoom.on(RoomEvent.ConnectionQualityChanged, (quality, participant) => {
+      if (!participant.isLocal) return
+      metricsCollector.connectionQualityChanged(quality)
+      setCallMetrics(metricsCollector.report())
+    })
+
+    newRoom.on(RoomEvent.LocalTrackPublished, (publication) => {
+      if (publication.kind !== Track.Kind.Audio) return
+      if (window.__CALL_DEBUG__) console.log('[MIC_SENDING]')
+
+      // Mic level meter (analysis only, not routed to the speakers). Re-tapped when the track
+      // restarts (device switch, new capture settings) so the meter follows the live track.
+      const track = publication.track
+      const tapMic = () => {
+        const mediaStreamTrack = track?.mediaStreamTrack
+        if (!audioContextRef.current || !mediaStreamTrack) return
+        try {
+          micTapRef.current?.disconnect()
+          const tap = tapMediaStreamTrack(audioContextRef.current, mediaStreamTrack)
+          micTapRef.current = tap.source
+          setMicAnalyser(tap.analyser)
+        } catch (err) {
+          console.warn('Failed to tap microphone for level meter:', err)
+        }
+      }
+      tapMic()
+      track?.on(TrackEvent.Restarted, tapMic)
+    })
+
+    // Live transcription from LiveKit (interim segments are replaced by final ones)
+    newRoom.on(RoomEvent.TranscriptionReceived, (segments, participant) => {
+      const speaker = participant?.isLocal ? 'user' : 'agent'
+      setTranscript(prev => mergeTranscriptLines(prev, segments.map(segment => ({
+        id: segment.id,
+        speaker,
+        text: segment.text,
+        final: segment.final,
+        timestamp: segment.firstReceivedTime,
+      }))))
+    })
+
+    // Data channel router - stored in ref so handlers are registered only once
+    if (!messageRouterRef.current) {
+      const router = createMessageRouter()
+
+      router.on('ping', (_message, participant) => {
+        if (window.__EVAL_DEBUG__) {
+          console.log('[DATA] ping from', participant?.identity || 'unknown')
+        }
+      })
+
+      router.on('transcript', (message) => {
+        setTranscript(prev => mergeTranscriptLine(prev, message.data))
+      })
+
+      router.on('evaluation_progress', (message) => {
+        if (window.__EVAL_DEBUG__) {
+          console.log('[EVALUATION_PROGRESS]', message.stage, message.percent)
+        }
+        setEvaluationProgress({ stage: message.stage, percent: message.percent })
+        if (message.partial) {
+          partialEvaluationRawRef.current = { ...partialEvaluationRawRef.current, ...message.partial }
+          // Warnings are expected for a partial payload, so only the final one is reported
+          setPartialEvaluation(normalizeEvaluation(partialEvaluationRawRef.current).evaluation)
+        }
+      })
+
+      router.on('evaluation_ready', (message) => {
+        if (window.__EVAL_DEBUG__) {
+          console.log('[EVALUATION_JSON]', JSON.stringify(message.data, null, 2))
+        }
+        applyEvaluation(message.data)
+        console.log('[EVALUATION_RECEIVED]', message.data)
+      })
+
+      messageRouterRef.current = router
+    }
+    const router = messageRouterRef.current
+    newRoom.on(RoomEvent.DataReceived, (payload, participant) => router.handle(payload, participant))
+
+    await newRoom.connect(url, token)
+    setRoom(newRoom)
+    updateAgentPresence()  // The agent may already be in the room (e.g. after a rejoin)
+
+    // Apply devices picked in the pre-call setup
+    if (deviceSelection.audioInputId) {
+      await newRoom.switchActiveDevice('audioinput', deviceSelection.audioInputId)
+    }
+    if (deviceSelection.audioOutputId) {
+      await newRoom.switchActiveDevice('audiooutput', deviceSelection.audioOutputId)
+      // Agent audio plays through the AudioContext, so route its output too where supported
+      const context = audioContextRef.current as (AudioContext & { setSinkId?: (id: string) => Promise<void> }) | null
+      await context?.setSinkId?.(deviceSelection.audioOutputId).catch(err => {
+        console.warn('Failed to switch AudioContext output:', err)
+      })
+    }
+
+    await newRoom.startAudio()
+
+    if (audioContextRef.current && audioContextRef.current.state === 'suspended') {
+      await audioContextRef.current.resume()
+    }
+
+    if (!startMuted) {
+      try {
+        await newRoom.localParticipant.setMicrophoneEnabled(true, micCaptureOptions(audioSettings), micPublishOptions(audioSettings))
+        micTrackSettingsRef.current = audioSettings
+      } catch (err) {
+        console.warn('Failed to enable microphone:', err)
+        setError(`Could not start your microphone${err instanceof Error ? `: ${err.message}` : ''}. Check the Audio Setup and try again.`)
+      }
+    }
+
+    // Send evaluate flag to backend (also carries our protocol version for negotiation)
+    await sendMessage(newRoom.localParticipant, {
+      type: 'evaluate',
+      value: evaluationEnabled,
+      protocol_version: PROTOCOL_VERSION,
+    })
+    console.log('[EVALUATE_FLAG_SENT]', evaluationEnabled, `protocol=v${PROTOCOL_VERSION}`)
+  }, [evaluationEnabled, deviceSelection, audioSettings, applyEvaluation, fetchTokenGrant, metricsCollector])
 
   const initializeRoom = useCallback(async () => {
     try {
@@ -104,11 +481,31 @@ export default function VoiceBotInterface() {
       setEvaluationResult(null)
       setIsEvaluating(false)
       setShowSummary(false)
-      setEvalDone(false)
+      setPendingEvaluationRoom(null)
+      setEvaluationProgress(null)
+      setPartialEvaluation(null)
+      partialEvaluationRawRef.current = {}
+      evalDoneRef.current = false
+      evaluationSkippedRef.current = false
+      setTranscript([])
+      setTranscriptHighlight(null)
+      setCallStartedAt(null)
+      setCallEndedAt(null)
+      setCallAudioSettings(audioSettings)
+      setIsMuted(false)
+      setAgentError('')
+      agentAutoRedispatchedRef.current = false
+      metricsCollector.reset()
+      setCallMetrics(null)
+      tokenGrantRef.current = null
+      setTokenExpiresAt(null)
 
       const participantName = `user-${Date.now()}`
       // Generate UNIQUE room name for EACH conversation (not reused across sessions)
       const roomName = `room-test-roleplay-${Date.now()}-${Math.random().toString(36).substring(7)}`
+      roomNameRef.current = roomName
+      participantNameRef.current = participantName
+      callSelectionRef.current = scenarioSelection
 
       // Create AudioContext (wrapped in try-catch for iOS compatibility)
       try {
@@ -128,142 +525,128 @@ export default function VoiceBotInterface() {
       document.body.appendChild(audioEl)
       remoteAudioRef.current = audioEl
 
-      // Get token with unique room name per conversation
-      const tokenResponse = await fetch('/api/voice-bot/token', {
+      await joinRoom(roomName, participantName, scenarioSelection, false)
+    } catch (error) {
+      console.error('Error initializing room:', error)
+      setError(error instanceof Error ? error.message : 'Failed to connect')
+      setIsLoading(false)
+    }
+  }, [scenarioSelection, audioSettings, joinRoom, metricsCollector])
+
+  // Ask the server to dispatch the agent again when it never showed up
+  const redispatchAgent = useCallback(async () => {
+    const roomName = roomNameRef.current
+    if (!roomName) return
+
+    setAgentStatus('redispatching')
+    setAgentError('')
+    try {
+      const response = await fetch('/api/voice-bot/dispatch', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ participantName, roomName }),
+        body: JSON.stringify({
+          participantName: participantNameRef.current,
+          roomName,
+          scenario: callSelectionRef.current,
+        }),
       })
 
-      if (!tokenResponse.ok) {
-        throw new Error('Failed to get access token')
+      if (!response.ok) {
+        const { error: dispatchError } = await response.json().catch(() => ({}))
+        throw new Error(dispatchError || 'Failed to dispatch agent')
       }
 
-      const { token, url } = await tokenResponse.json()
-
-      const newRoom = new Room()
-
-      newRoom.on(RoomEvent.Connected, () => {
-        setConnectionStatus('connected')
-        setIsLoading(false)
-      })
-
-      newRoom.on(RoomEvent.Disconnected, () => {
-        setConnectionStatus('disconnected')
-      })
-
-      newRoom.on(RoomEvent.TrackSubscribed, async (track, publication, participant) => {
-        if (track.kind === Track.Kind.Audio) {
-          // Use pre-created audio element (created during button click for iOS compatibility)
-          const audioEl = remoteAudioRef.current
-          if (!audioEl) {
-            console.error('Audio element not found')
-            return
-          }
-
-          try {
-            track.attach(audioEl)
-
-            // Resume audio context if suspended (non-blocking for iOS)
-            if (audioContextRef.current?.state === 'suspended') {
-              audioContextRef.current.resume().catch(err => {
-                console.warn('[iOS] AudioContext resume failed:', err)
-              })
-            }
-
-            await audioEl.play()
+      console.log('[AGENT_REDISPATCHED]', roomName)
+      // Back to waiting, so the watchdog gives the new dispatch its own join window
+      setAgentStatus(status => status === 'redispatching' ? 'waiting' : status)
+    } catch (err) {
+      console.warn('Error redispatching agent:', err)
+      setAgentError(err instanceof Error ? err.message : 'Failed to dispatch agent')
+      setAgentStatus(status => status === 'redispatching' ? 'missing' : status)
+    }
+  }, [])
 
-            if (participant.identity.includes('agent')) {
-              if (window.__CALL_DEBUG__) console.log('[READY_FOR_USER]')
-              setIsAgentSpeaking(true)
-            }
-          } catch (err) {
-            console.warn('Audio playback error:', err)
-          }
-        }
-      })
+  // Join watchdog: no agent within the join window means the dispatch was lost
+  useEffect(() => {
+    if (connectionStatus !== 'connected' || agentStatus !== 'waiting') return
+
+    const timeout = setTimeout(() => {
+      console.warn(`[AGENT_JOIN_TIMEOUT] No agent joined within ${AGENT_JOIN_TIMEOUT_MS / 1000} seconds`)
+      setAgentStatus('missing')
+      if (!agentAutoRedispatchedRef.current) {
+        agentAutoRedispatchedRef.current = true
+        redispatchAgent()
+      }
+    }, AGENT_JOIN_TIMEOUT_MS)
 
-      newRoom.on(RoomEvent.TrackUnsubscribed, (track, publication, participant) => {
-        try {
-          const el = remoteAudioRef.current
-          if (el) track.detach(el)
-        } catch (err) {
-          console.warn('Error detaching track:', err)
-        }
+    return () => clearTimeout(timeout)
+  }, [connectionStatus, agentStatus, redispatchAgent])
 
-        if (participant.identity.includes('agent')) {
-          setIsAgentSpeaking(false)
-        }
-      })
+  // Sample WebRTC stats while connected (a rejoin gets a fresh sampler for the new room)
+  useEffect(() => {
+    if (!room || connectionStatus !== 'connected') return
 
-      newRoom.on(RoomEvent.LocalTrackPublished, (publication) => {
-        if (publication.kind === Track.Kind.Audio && window.__CALL_DEBUG__) {
-          console.log('[MIC_SENDING]')
-        }
-      })
+    const sample = createQualitySampler(room)
+    const interval = setInterval(async () => {
+      try {
+        metricsCollector.addQualitySample(await sample())
+        setCallMetrics(metricsCollector.report())
+      } catch (err) {
+        console.warn('Error sampling call stats:', err)
+      }
+    }, QUALITY_SAMPLE_INTERVAL_MS)
 
-      // Data channel listener - stored in ref to prevent re-creation on re-renders
-      if (!dataChannelHandlerRef.current) {
-        dataChannelHandlerRef.current = (payload: Uint8Array, participant?: any) => {
-          try {
-            const text = new TextDecoder().decode(payload)
-            const message = JSON.parse(text)
-
-            if (message.type === 'ping') {
-              if (window.__EVAL_DEBUG__) {
-                console.log('[DATA] ping from', participant?.identity || 'unknown')
-              }
-            }
+    return () => clearInterval(interval)
+  }, [room, connectionStatus, metricsCollector])
 
-            if (message.type === 'evaluation_ready') {
-              if (window.__EVAL_DEBUG__) {
-                console.log('[EVALUATION_JSON]', JSON.stringify(message.data, null, 2))
-              }
-              setIsEvaluating(false)
-              setEvaluationResult(message.data)
-              setShowSummary(true)
-              setEvalDone(true)
-              console.log('[EVALUATION_RECEIVED]', message.data)
-            }
-          } catch (err) {
-            console.warn('Error parsing data message:', err)
-          }
-        }
+  // Refresh the token before it expires on long calls. LiveKit keeps the live connection
+  // authorized on its own; this keeps a valid token ready for rejoining a dropped call.
+  useEffect(() => {
+    if (connectionStatus !== 'connected' || !tokenExpiresAt) return
+
+    // Halfway through very short TTLs, so a refresh never fires in a tight loop
+    const remaining = tokenExpiresAt - Date.now()
+    const refreshDelay = Math.max(remaining / 2, remaining - TOKEN_REFRESH_MARGIN_MS)
+    const timeout = setTimeout(async () => {
+      const grant = tokenGrantRef.current
+      const participantName = participantNameRef.current
+      if (!grant || !participantName) return
+      try {
+        await fetchTokenGrant(grant.room, participantName, callSelectionRef.current)
+        console.log('[TOKEN_REFRESHED]', grant.room)
+      } catch (err) {
+        console.warn('Error refreshing token:', err)
       }
-      newRoom.on(RoomEvent.DataReceived, dataChannelHandlerRef.current)
+    }, refreshDelay)
 
-      await newRoom.connect(url, token)
-      setRoom(newRoom)
+    return () => clearTimeout(timeout)
+  }, [connectionStatus, tokenExpiresAt, fetchTokenGrant])
 
-      await newRoom.startAudio()
-
-      if (audioContextRef.current && audioContextRef.current.state === 'suspended') {
-        await audioContextRef.current.resume()
+  // Tear down the per-call audio element and AudioContext
+  const releaseCallAudio = useCallback(() => {
+    if (remoteAudioRef.current && remoteAudioRef.current.parentNode) {
+      try {
+        remoteAudioRef.current.parentNode.removeChild(remoteAudioRef.current)
+      } catch (err) {
+        console.warn('Error removing audio element:', err)
       }
+      remoteAudioRef.current = null
+    }
 
+    if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
       try {
-        await newRoom.localParticipant.setMicrophoneEnabled(true, undefined, {
-          audioPreset: { maxBitrate: 32000 },
-          dtx: true,
-          red: true
-        })
+        audioContextRef.current.close()
       } catch (err) {
-        console.warn('Failed to enable microphone:', err)
+        console.warn('Error closing audio context:', err)
       }
-
-      // Send evaluate flag to backend
-      const evaluateMessage = JSON.stringify({ type: 'evaluate', value: evaluationEnabled })
-      await newRoom.localParticipant.publishData(
-        new TextEncoder().encode(evaluateMessage),
-        { reliable: true }
-      )
-      console.log('[EVALUATE_FLAG_SENT]', evaluationEnabled)
-    } catch (error) {
-      console.error('Error initializing room:', error)
-      setError(error instanceof Error ? error.message : 'Failed to connect')
-      setIsLoading(false)
+      audioContextRef.current = null
     }
-  }, [evaluationEnabled])
+    audioSourceRef.current = null
+    gainNodeRef.current = null
+    micTapRef.current = null
+    setAgentAnalyser(null)
+    setMicAnalyser(null)
+  }, [])
 
   const disconnect = useCallback(async () => {
     if (room) {
@@ -284,48 +667,49 @@ export default function VoiceBotInterface() {
         }
       }
 
-      // Hide "Agent speaking..." indicator immediately
-      setIsAgentSpeaking(false)
+      // Hide the turn indicator immediately
+      setAgentState(null)
+      setAudibleSpeakers({ agent: false, user: false })
+      setCallEndedAt(Date.now())
 
       // If evaluation enabled, request it and wait with grace window
       if (evaluationEnabled && !evaluationResult) {
         setIsEvaluating(true)
-        setEvalDone(false)
+        setEvaluationWaitMs(0)
         setConnectionStatus('processing')  // Change to yellow during processing
 
         try {
           console.log('[REQUESTING_EVALUATION]')
-          const requestMessage = JSON.stringify({ type: 'request_evaluation' })
-          await room.localParticipant.publishData(
-            new TextEncoder().encode(requestMessage),
-            { reliable: true }
-          )
-
-          // NON-BLOCKING grace window using Promise.race (45 seconds)
-          // Comprehensive evaluation takes 30-40 seconds for longer calls (gpt-4o-mini + detailed prompt + training mapping)
-          const graceWindowMs = 45000
-
-          const evaluationReceived = new Promise<void>((resolve) => {
-            const checkInterval = setInterval(() => {
-              if (evalDone) {
-                clearInterval(checkInterval)
-                resolve()
-              }
-            }, 100)
-
-            // Cleanup interval after grace window
-            setTimeout(() => clearInterval(checkInterval), graceWindowMs)
-          })
-
-          const timeout = new Promise<void>((resolve) => {
-            setTimeout(resolve, graceWindowMs)
-          })
-
-          await Promise.race([evaluationReceived, timeout])
-
-          if (!evalDone) {
+          await sendMessage(room.localParticipant, { type: 'request_evaluation' })
+
+          // Event-driven grace window: resolves as soon as evaluation_ready arrives.
+          // Skip may have been pressed while the request was still being sent.
+          const received = evalDoneRef.current || (!evaluationSkippedRef.current && await new Promise<boolean>((resolve) => {
+            const startedAt = Date.now()
+            const progressInterval = setInterval(() => setEvaluationWaitMs(Date.now() - startedAt), 250)
+
+            const finish = (value: boolean) => {
+              clearInterval(progressInterval)
+              clearTimeout(timeout)
+              evaluationWaiterRef.current = null
+              resolve(value)
+            }
+
+            const timeout = setTimeout(() => finish(false), EVALUATION_GRACE_WINDOW_MS)
+            evaluationWaiterRef.current = finish
+          }))
+
+          if (evaluationSkippedRef.current) {
+            setIsEvaluating(false)
+            setShowSummary(false)
+            setEvaluationProgress(null)
+            setPartialEvaluation(null)
+            console.log('[EVALUATION_SKIPPED]')
+          } else if (!received) {
             setIsEvaluating(false)
-            console.warn('[EVALUATION_TIMEOUT] No result received after 45 seconds')
+            setShowSummary(true)
+            setPendingEvaluationRoom(roomNameRef.current)
+            console.warn(`[EVALUATION_TIMEOUT] No result received after ${EVALUATION_GRACE_WINDOW_MS / 1000} seconds, will keep checking the evaluation store`)
           }
         } catch (err) {
           console.warn('Error requesting evaluation:', err)
@@ -334,23 +718,7 @@ export default function VoiceBotInterface() {
       }
 
       // Now disconnect - cleanup audio elements
-      if (remoteAudioRef.current && remoteAudioRef.current.parentNode) {
-        try {
-          remoteAudioRef.current.parentNode.removeChild(remoteAudioRef.current)
-        } catch (err) {
-          console.warn('Error removing audio element:', err)
-        }
-        remoteAudioRef.current = null
-      }
-
-      if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
-        try {
-          audioContextRef.current.close()
-        } catch (err) {
-          console.warn('Error closing audio context:', err)
-        }
-        audioContextRef.current = null
-      }
+      releaseCallAudio()
 
       // Disconnect from room
       await safeDisconnect(room, 'EXPLICIT_HANGUP')
@@ -359,110 +727,166 @@ export default function VoiceBotInterface() {
       // Set to disconnected after evaluation complete
       setConnectionStatus('disconnected')
     }
-  }, [room, evaluationEnabled, evaluationResult, evalDone])
+  }, [room, evaluationEnabled, evaluationResult, releaseCallAudio])
+
+  // Rejoin the same room with a fresh token after the connection dropped, keeping mute state
+  // and the evaluation flag. Only works while the room (and the agent) is still there.
+  const rejoinCall = useCallback(async () => {
+    const roomName = roomNameRef.current
+    const participantName = participantNameRef.current
+    if (!roomName || !participantName) return
+
+    try {
+      setIsLoading(true)
+      setError('')
+      console.log('[REJOINING]', roomName)
+      await joinRoom(roomName, participantName, callSelectionRef.current, isMuted)
+    } catch (err) {
+      console.error('Error rejoining room:', err)
+      setError(`Could not rejoin the call${err instanceof Error ? `: ${err.message}` : ''}. You can end it and start a new one.`)
+      setIsLoading(false)
+    }
+  }, [joinRoom, isMuted])
+
+  // Give up on a dropped call. The evaluation can't be requested any more, but the agent
+  // may still store one, so keep checking the evaluation store like after a timeout.
+  const endDroppedCall = useCallback(() => {
+    releaseCallAudio()
+    setCallEndedAt(Date.now())
+    if (evaluationEnabled && !evaluationResult) {
+      setShowSummary(true)
+      setPendingEvaluationRoom(roomNameRef.current)
+    }
+    setConnectionStatus('disconnected')
+  }, [evaluationEnabled, evaluationResult, releaseCallAudio])
+
+  // The room went away under us (ended from the admin dashboard, participant removed, ...).
+  // Same cleanup as giving up on a dropped call, plus the state a dropped call already cleared.
+  const endEndedCall = useCallback(() => {
+    // Mid-hangup: stop waiting for the evaluation and let `disconnect` finish the call
+    if (evaluationWaiterRef.current) {
+      evaluationWaiterRef.current(false)
+      return
+    }
+    setRoom(null)
+    setAgentState(null)
+    setAudibleSpeakers({ agent: false, user: false })
+    endDroppedCall()
+  }, [endDroppedCall])
+
+  useEffect(() => {
+    endEndedCallRef.current = endEndedCall
+  }, [endEndedCall])
+
+  // Cancel a pending evaluation and let `disconnect` finish right away
+  const skipEvaluation = useCallback(async () => {
+    evaluationSkippedRef.current = true
+    if (room) {
+      try {
+        await sendMessage(room.localParticipant, { type: 'cancel_evaluation' })
+      } catch (err) {
+        console.warn('Error cancelling evaluation:', err)
+      }
+    }
+    evaluationWaiterRef.current?.(false)
+  }, [room])
+
+  // Keep polling for a late evaluation after the grace window expired
+  useEffect(() => {
+    if (!pendingEvaluationRoom) return
+
+    let attempts = 0
+    const interval = setInterval(async () => {
+      attempts += 1
+      const recovered = await recoverEvaluation(pendingEvaluationRoom)
+      if (recovered || attempts >= EVALUATION_RECOVERY_MAX_ATTEMPTS) {
+        clearInterval(interval)
+      }
+    }, EVALUATION_RECOVERY_INTERVAL_MS)
+
+    return () => clearInterval(interval)
+  }, [pendingEvaluationRoom, recoverEvaluation])
+
+  // Unmute with the current audio settings. Re-enabling an existing publication ignores the
+  // option objects, so changed capture settings restart the track and changed publish settings
+  // republish it.
+  const enableMicWithSettings = useCallback(async (participant: LocalParticipant, settings: AudioSettings) => {
+    const track = participant.getTrackPublication(Track.Source.Microphone)?.track as LocalAudioTrack | undefined
+    const applied = micTrackSettingsRef.current
+    if (track && applied) {
+      if (publishSettingsChanged(applied, settings)) {
+        await participant.unpublishTrack(track, true)
+      } else if (captureSettingsChanged(applied, settings)) {
+        // Without a deviceId the restart falls back to the system default input
+        const deviceId = (await track.getDeviceId()) ?? deviceSelection.audioInputId
+        await track.restartTrack({ ...micCaptureOptions(settings), ...(deviceId ? { deviceId } : {}) })
+      }
+    }
+    await participant.setMicrophoneEnabled(true, micCaptureOptions(settings), micPublishOptions(settings))
+    micTrackSettingsRef.current = settings
+  }, [deviceSelection])
 
   const toggleMute = useCallback(async () => {
     if (room) {
       if (isMuted) {
-        await room.localParticipant.setMicrophoneEnabled(true, undefined, {
-          audioPreset: { maxBitrate: 28000 },
-          dtx: true,
-          red: true
-        })
+        await enableMicWithSettings(room.localParticipant, audioSettings)
         setIsMuted(false)
       } else {
         await room.localParticipant.setMicrophoneEnabled(false)
         setIsMuted(true)
       }
     }
-  }, [room, isMuted])
-
-  const downloadPDF = useCallback(() => {
-    if (!evaluationResult) return;
-
-    const doc = new jsPDF('p', 'mm', 'letter');
-    let yPos = 20;
-
-    // Title
-    doc.setFontSize(16);
-    doc.text('Roleplay Evaluation Report', 20, yPos);
-    yPos += 10;
-
-    // Scenario and Overall Score
-    doc.setFontSize(12);
-    doc.text(`Scenario: ${evaluationResult.scenario_type || 'N/A'}`, 20, yPos);
-    yPos += 7;
-    doc.text(`Overall Score: ${evaluationResult.overall_score || 'N/A'}/10`, 20, yPos);
-    yPos += 10;
-
-    // Core Metrics
-    doc.text('Core Metrics:', 20, yPos);
-    yPos += 7;
-    Object.entries(evaluationResult.core_metrics || {}).forEach(([key, metric]) => {
-      doc.text(`${key.replace(/_/g, ' ').toUpperCase()}: ${metric.score}`, 25, yPos);
-      doc.text(metric.feedback, 25, yPos + 5);
-      yPos += 12;
-    });
-
-    // Top Wins
-    doc.text('Top Wins:', 20, yPos);
-    yPos += 7;
-    (evaluationResult.top_wins || []).forEach(win => {
-      if (typeof win === 'string') {
-        doc.text(win, 25, yPos);
-        yPos += 7;
-      } else {
-        if (win.title) doc.text(win.title || '', 25, yPos);
-        if (win.description) doc.text(win.description || '', 25, yPos + 5);
-        if (win.citation) doc.text(`Citation: ${win.citation}`, 25, yPos + 10);
-        yPos += 15;
-      }
-    });
-
-    // Top Improvements
-    doc.text('Top Improvements:', 20, yPos);
-    yPos += 7;
-    (evaluationResult.top_improvements || []).forEach(imp => {
-      if (typeof imp === 'string') {
-        doc.text(imp, 25, yPos);
-        yPos += 7;
-      } else {
-        if (imp.title) doc.text(imp.title || '', 25, yPos);
-        if (imp.what_you_said) doc.text(imp.what_you_said || '', 25, yPos + 5);
-        if (imp.suggested_alternative) doc.text(`Suggested: ${imp.suggested_alternative}`, 25, yPos + 10);
-        yPos += 15;
-      }
-    });
-
-    // Training Recommendations
-    doc.text('Training Recommendations:', 20, yPos);
-    yPos += 7;
-    (evaluationResult.training_recommendations || []).forEach(rec => {
-      doc.text(`${rec.course} - ${rec.module}: ${rec.topic}`, 25, yPos);
-      doc.text(rec.reason, 25, yPos + 5);
-      doc.text(rec.url, 25, yPos + 10);
-      yPos += 15;
-    });
-
-    // Summary
-    doc.text('Summary:', 20, yPos);
-    yPos += 7;
-    if (evaluationResult.summary) {
-      if (typeof evaluationResult.summary === 'object' && evaluationResult.summary !== null) {
-        const summary = evaluationResult.summary as any;
-        doc.text(summary.strengths || '', 25, yPos);
-        yPos += 7;
-        doc.text(summary.growth_areas || '', 25, yPos);
-        yPos += 7;
-        doc.text(summary.next_practice_focus || '', 25, yPos);
-      } else {
-        // Fallback for string summary (old format)
-        doc.text(String(evaluationResult.summary), 25, yPos);
-      }
-    }
+  }, [room, isMuted, audioSettings, enableMicWithSettings])
+
+  const sessionMetadata = useMemo<SessionMetadata>(() => ({
+    roomName: roomNameRef.current,
+    startedAt: callStartedAt,
+    durationMs: callStartedAt !== null && callEndedAt !== null ? callEndedAt - callStartedAt : null,
+    scenario: activeScenario,
+    audioSettings: callAudioSettings,
+    metrics: callMetrics,
+  }), [callStartedAt, callEndedAt, activeScenario, callAudioSettings, callMetrics])
+
+  // Record the call in session history once it ends, and again when its evaluation arrives
+  useEffect(() => {
+    const roomName = sessionMetadata.roomName
+    if (!roomName || callEndedAt === null) return
+
+    saveSession({
+      id: roomName,
+      session: sessionMetadata,
+      evaluation: evaluationResult,
+      raw: evaluationRawRef.current,
+      transcript,
+    })
+      .then(() => setHistoryVersion(v => v + 1))
+      .catch(err => console.warn('Error saving session history:', err))
+  }, [sessionMetadata, callEndedAt, evaluationResult, transcript])
+
+  // Restore remembered devices and settings after mount (localStorage is not available during SSR)
+  useEffect(() => {
+    setDeviceSelection(loadDeviceSelection())
+    setAudioSettings(loadAudioSettings())
+  }, [])
 
-    doc.save('evaluation-report.pdf');
-  }, [evaluationResult]);
+  // Ask for the access code up front when the server requires a session
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then(response => response.json())
+      .then(({ authenticated }) => setAuthRequired(authenticated === false))
+      .catch(err => console.warn('Error checking session:', err))
+  }, [])
+
+  const updateAudioSettings = useCallback((next: AudioSettings) => {
+    setAudioSettings(next)
+    saveAudioSettings(next)
+  }, [])
+
+  // Agent volume applies live through the gain node
+  useEffect(() => {
+    audioSettingsRef.current = audioSettings
+    if (gainNodeRef.current) gainNodeRef.current.gain.value = audioSettings.agentVolume
+  }, [audioSettings])
 
   // Cleanup audio element on unmount only
   useEffect(() => {
@@ -491,20 +915,22 @@ export default function VoiceBotInterface() {
         <div
           className={`w-3 h-3 rounded-full ${
             connectionStatus === 'connected' ? 'bg-form-success' : 
-            connectionStatus === 'processing' ? 'bg-yellow-500' : 
+            connectionStatus === 'processing' || connectionStatus === 'reconnecting' ? 'bg-yellow-500' : 
             'bg-form-error'
           }`}
         />
         <span className="text-sm font-medium text-form-text-dark">
           {connectionStatus === 'connected' ? 'Connected' : 
            connectionStatus === 'processing' ? 'Analyzing Call...' : 
+           connectionStatus === 'reconnecting' ? 'Reconnecting...' : 
+           connectionStatus === 'dropped' ? 'Connection Lost' : 
            'Disconnected'}
         </span>
-        {isAgentSpeaking && (
-          <div className="flex items-center gap-2 text-form-gold-muted ml-4">
-            <Volume2 className="w-4 h-4" />
-            <span className="text-sm">Agent speaking...</span>
-          </div>
+        {connectionStatus === 'connected' && agentStatus !== 'present' && agentStatus !== 'missing' && (
+          <span className="text-sm text-form-text-gray ml-4">Waiting for the agent to join...</span>
+        )}
+        {connectionStatus === 'connected' && (
+          <TurnIndicator turn={deriveTurnState(agentState, audibleSpeakers.agent, audibleSpeakers.user && !isMuted)} />
         )}
       </div>
 
@@ -515,6 +941,48 @@ export default function VoiceBotInterface() {
         </div>
       )}
 
+      {/* Agent never joined */}
+      {connectionStatus === 'connected' && agentStatus === 'missing' && (
+        <div className="bg-form-error bg-opacity-10 border border-form-error text-form-error p-3 rounded-lg text-sm space-y-2">
+          <p>
+            The agent hasn&apos;t joined the call{agentError ? ` (${agentError})` : ''}. Call it again, or end the call and start a new one.
+          </p>
+          <button
+            onClick={redispatchAgent}
+            className="px-3 py-1.5 text-xs font-medium bg-white border border-form-error text-form-error rounded-lg transition-colors hover:bg-form-off-white"
+          >
+            Call agent again
+          </button>
+        </div>
+      )}
+
+      {/* Scenario Picker */}
+      {connectionStatus === 'disconnected' && (
+        <ScenarioPicker
+          value={scenarioSelection}
+          onChange={setScenarioSelection}
+          disabled={isLoading}
+        />
+      )}
+
+      {/* Pre-call Device Check */}
+      {connectionStatus === 'disconnected' && (
+        <DeviceCheck
+          value={deviceSelection}
+          onChange={setDeviceSelection}
+          status={micStatus}
+          onStatusChange={setMicStatus}
+          disabled={isLoading}
+        />
+      )}
+
+      {/* Audio Settings */}
+      <AudioSettingsPanel
+        value={audioSettings}
+        onChange={updateAudioSettings}
+        isInCall={connectionStatus !== 'disconnected'}
+      />
+
       {/* Evaluation Toggle */}
       {connectionStatus === 'disconnected' && (
         <div className="flex items-center justify-center gap-2">
@@ -531,16 +999,57 @@ export default function VoiceBotInterface() {
         </div>
       )}
 
+      {/* Access Code */}
+      {connectionStatus === 'disconnected' && authRequired && (
+        <AccessCodePrompt
+          onAuthenticated={() => {
+            setAuthRequired(false)
+            setError('')
+          }}
+        />
+      )}
+
       {/* Controls */}
+      {connectionStatus === 'disconnected' && isMicBlocking(micStatus) && (
+        <p className="text-xs text-form-error text-center">
+          {micStatus === 'denied'
+            ? 'Start Conversation is unavailable until microphone access is allowed.'
+            : 'Start Conversation is unavailable because no microphone was found.'}
+        </p>
+      )}
       <div className="flex justify-center gap-4 flex-wrap">
         {connectionStatus === 'disconnected' ? (
           <button
             onClick={initializeRoom}
-            disabled={isLoading}
+            disabled={isLoading || isMicBlocking(micStatus) || authRequired}
             className="flex items-center gap-2 px-6 py-3 bg-form-gold-muted hover:bg-form-gold-muted-dark text-white font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {isLoading ? 'Connecting...' : '🎤 Start Conversation'}
           </button>
+        ) : connectionStatus === 'dropped' ? (
+          <div className="flex flex-col items-center gap-3">
+            <p className="text-sm text-form-text-dark text-center">
+              Your connection dropped. Rejoin to pick up the roleplay where you left off.
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={rejoinCall}
+                disabled={isLoading}
+                className="flex items-center gap-2 px-4 py-2 bg-form-gold-muted hover:bg-form-gold-muted-dark text-white font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Phone className="w-4 h-4" />
+                {isLoading ? 'Rejoining...' : 'Rejoin Call'}
+              </button>
+              <button
+                onClick={endDroppedCall}
+                disabled={isLoading}
+                className="flex items-center gap-2 px-4 py-2 bg-form-error hover:bg-form-error text-white font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <PhoneOff className="w-4 h-4" />
+                End Call
+              </button>
+            </div>
+          </div>
         ) : (
           <div className="flex gap-2">
             <button
@@ -563,10 +1072,33 @@ export default function VoiceBotInterface() {
               <PhoneOff className="w-4 h-4" />
               {isEvaluating ? 'Processing Summary...' : 'End Call'}
             </button>
+            {isEvaluating && (
+              <button
+                onClick={skipEvaluation}
+                className="flex items-center gap-2 px-4 py-2 bg-form-border-light hover:bg-form-text-gray text-form-text-dark font-medium rounded-lg transition-colors"
+              >
+                Skip summary
+              </button>
+            )}
           </div>
         )}
       </div>
 
+      {/* Audio Visualizer */}
+      {connectionStatus === 'connected' && (
+        <AudioVisualizer agentAnalyser={agentAnalyser} micAnalyser={micAnalyser} isMuted={isMuted} />
+      )}
+
+      {/* Call Diagnostics */}
+      {(connectionStatus === 'connected' || connectionStatus === 'reconnecting') && (
+        <CallDiagnostics metrics={callMetrics} />
+      )}
+
+      {/* Live Transcript - kept after the call for review next to the evaluation */}
+      {(connectionStatus !== 'disconnected' || transcript.length > 0) && (
+        <LiveTranscript lines={transcript} isLive={connectionStatus === 'connected'} highlight={transcriptHighlight} />
+      )}
+
       {/* Info */}
       <div className="bg-form-off-white border border-form-border-light rounded-lg p-4">
         <h4 className="font-medium text-form-text-dark mb-2">How to use:</h4>
@@ -578,6 +1110,20 @@ export default function VoiceBotInterface() {
         </ul>
       </div>
 
+      {/* Blind A/B voice rating */}
+      {connectionStatus === 'disconnected' && isVoiceTest && callEndedAt !== null && sessionMetadata.roomName && (
+        <VoiceRatingForm
+          key={sessionMetadata.roomName}
+          roomName={sessionMetadata.roomName}
+          turnLatenciesMs={callMetrics?.turnLatenciesMs ?? []}
+        />
+      )}
+
+      {/* Post-call feedback */}
+      {connectionStatus === 'disconnected' && callEndedAt !== null && sessionMetadata.roomName && (
+        <FeedbackForm key={sessionMetadata.roomName} roomName={sessionMetadata.roomName} />
+      )}
+
       {/* Call Summary Card */}
       {(evaluationEnabled || evaluationResult || isEvaluating) && (
         <div className="bg-white border border-form-border-light rounded-lg overflow-hidden">
@@ -599,197 +1145,76 @@ export default function VoiceBotInterface() {
           {showSummary && (
             <div className="px-4 py-3 border-t border-form-border-light">
               {isEvaluating && !evaluationResult && (
-                <div className="text-center text-form-text-gray py-6">
-                  <div className="text-base mb-2">
-                    <span className="animate-pulse">⏳</span> Analyzing your call performance...
-                  </div>
-                  <div className="text-xs text-form-text-gray">
-                    This typically takes 30-45 seconds
-                  </div>
-                </div>
-              )}
-
-              {evaluationResult && (
                 <div className="space-y-4">
-                  {/* No Transcript Error */}
-                  {evaluationResult.error === 'no_transcript' && (
-                    <div className="text-sm text-form-text-gray text-center py-4">
-                      We didn't capture speech this time. Check mic permissions and try again.
+                  <div className="text-center text-form-text-gray py-6">
+                    <div className="text-base mb-2">
+                      <span className="animate-pulse">⏳</span> Analyzing your call performance...
                     </div>
-                  )}
-
-                  {/* Overall Score Badge */}
-                  {evaluationResult.overall_score && (
-                    <div className="flex items-center justify-center">
-                      <div className="bg-form-gold-muted text-white rounded-full w-16 h-16 flex flex-col items-center justify-center">
-                        <div className="text-2xl font-bold">{evaluationResult.overall_score.toFixed(1)}</div>
-                        <div className="text-xs">/ 10</div>
-                      </div>
+                    <div className="text-xs text-form-text-gray mb-3">
+                      {evaluationProgress ? evaluationProgress.stage : 'This typically takes 30-45 seconds'}
                     </div>
-                  )}
-
-                  {/* Core Scores */}
-                  {evaluationResult.scores && (
-                    <div className="space-y-2">
-                      <h4 className="font-medium text-form-text-dark text-sm">Core Metrics</h4>
-                      <div className="flex items-center justify-between text-sm">
-                        <span className="text-form-text-dark">Rapport Building</span>
-                        <span className="font-medium text-form-gold-muted">
-                          {evaluationResult.scores.rapport_building}/10
-                        </span>
-                      </div>
-                      <div className="flex items-center justify-between text-sm">
-                        <span className="text-form-text-dark">Objection Handling</span>
-                        <span className="font-medium text-form-gold-muted">
-                          {evaluationResult.scores.objection_handling}/10
-                        </span>
-                      </div>
-                      <div className="flex items-center justify-between text-sm">
-                        <span className="text-form-text-dark">Tone & Confidence</span>
-                        <span className="font-medium text-form-gold-muted">
-                          {evaluationResult.scores.tone_confidence}/10
-                        </span>
-                      </div>
+                    {/* Real progress when the agent streams it, elapsed grace window otherwise */}
+                    <div className="h-1.5 bg-form-off-white rounded-full overflow-hidden max-w-xs mx-auto">
+                      <div
+                        className="h-full bg-form-gold-muted rounded-full transition-all duration-300"
+                        style={{
+                          width: `${evaluationProgress?.percent ?? Math.min(100, (evaluationWaitMs / EVALUATION_GRACE_WINDOW_MS) * 100)}%`,
+                        }}
+                      />
                     </div>
-                  )}
-
-                  {/* Top Wins */}
-                  {evaluationResult.top_wins && evaluationResult.top_wins.length > 0 && (
-                    <div className="pt-3 border-t border-form-border-light space-y-2">
-                      <h4 className="font-medium text-form-text-dark text-sm flex items-center gap-2">
-                        ✅ What You Did Well
-                      </h4>
-                      <ul className="space-y-1">
-                        {evaluationResult.top_wins.map((win, idx) => (
-                          <li key={idx} className="text-sm text-form-text-dark leading-relaxed pl-4 relative">
-                            <span className="absolute left-0">•</span>
-                            {typeof win === 'string' ? win : (
-                              <div>
-                                <strong>{win.title}</strong>
-                                {win.description && <p className="text-xs mt-1">{win.description}</p>}
-                              </div>
-                            )}
-                          </li>
-                        ))}
-                      </ul>
-                    </div>
-                  )}
-
-                  {/* Top Improvements */}
-                  {evaluationResult.top_improvements && evaluationResult.top_improvements.length > 0 && (
-                    <div className="pt-3 border-t border-form-border-light space-y-2">
-                      <h4 className="font-medium text-form-text-dark text-sm flex items-center gap-2">
-                        🎯 Focus Areas for Next Call
-                      </h4>
-                      <ul className="space-y-1">
-                        {evaluationResult.top_improvements.map((improvement, idx) => (
-                          <li key={idx} className="text-sm text-form-text-dark leading-relaxed pl-4 relative">
-                            <span className="absolute left-0">•</span>
-                            {typeof improvement === 'string' ? improvement : (
-                              <div>
-                                <strong>{improvement.title}</strong>
-                                {improvement.description && <p className="text-xs mt-1">{improvement.description}</p>}
-                                {improvement.what_you_said && (
-                                  <p className="text-xs text-form-text-gray mt-1">
-                                    <strong>You said:</strong> {improvement.what_you_said}
-                                  </p>
-                                )}
-                                {improvement.suggested_alternative && (
-                                  <p className="text-xs text-form-gold-muted mt-1">
-                                    <strong>Try instead:</strong> {improvement.suggested_alternative}
-                                  </p>
-                                )}
-                              </div>
-                            )}
-                          </li>
-                        ))}
-                      </ul>
+                    <div className="text-xs text-form-text-gray mt-1">
+                      {evaluationProgress?.percent != null
+                        ? `${Math.round(evaluationProgress.percent)}%`
+                        : `${Math.floor(evaluationWaitMs / 1000)}s / ${EVALUATION_GRACE_WINDOW_MS / 1000}s`}
                     </div>
-                  )}
-
-                  {/* Training Recommendations - New Format with URLs */}
-                  {evaluationResult.training_recommendations && evaluationResult.training_recommendations.length > 0 && (
-                    <TrainingRecommendations recommendations={evaluationResult.training_recommendations} />
-                  )}
-
-                  {/* Training Links - Legacy Format (Fallback) */}
-                  {!evaluationResult.training_recommendations && evaluationResult.training_links && evaluationResult.training_links.length > 0 && (
-                    <div className="pt-3 border-t border-form-border-light space-y-2">
-                      <h4 className="font-medium text-form-text-dark text-sm flex items-center gap-2">
-                        📚 Recommended Training
-                      </h4>
-                      <ul className="space-y-1">
-                        {evaluationResult.training_links.map((link, idx) => (
-                          <li key={idx} className="text-sm text-form-gold-muted leading-relaxed pl-4 relative hover:underline">
-                            <span className="absolute left-0">•</span>
-                            {link}
-                          </li>
-                        ))}
-                      </ul>
-                    </div>
-                  )}
-
-                  {/* Summary */}
-                  {evaluationResult.summary && (
-                    <div className="pt-3 border-t border-form-border-light">
-                      <h4 className="font-medium text-form-text-dark text-sm mb-2">Summary</h4>
-                      {typeof evaluationResult.summary === 'string' ? (
-                        <p className="text-sm text-form-text-dark leading-relaxed">
-                          {evaluationResult.summary}
-                        </p>
-                      ) : (
-                        <div className="space-y-2">
-                          {evaluationResult.summary.strengths && (
-                            <div>
-                              <strong className="text-xs text-form-text-dark">Strengths:</strong>
-                              <p className="text-sm text-form-text-dark leading-relaxed mt-1">
-                                {evaluationResult.summary.strengths}
-                              </p>
-                            </div>
-                          )}
-                          {evaluationResult.summary.growth_areas && (
-                            <div>
-                              <strong className="text-xs text-form-text-dark">Growth Areas:</strong>
-                              <p className="text-sm text-form-text-dark leading-relaxed mt-1">
-                                {evaluationResult.summary.growth_areas}
-                              </p>
-                            </div>
-                          )}
-                          {evaluationResult.summary.next_practice_focus && (
-                            <div>
-                              <strong className="text-xs text-form-text-dark">Next Practice Focus:</strong>
-                              <p className="text-sm text-form-text-dark leading-relaxed mt-1">
-                                {evaluationResult.summary.next_practice_focus}
-                              </p>
-                            </div>
-                          )}
-                        </div>
-                      )}
-                    </div>
-                  )}
+                  </div>
 
-                  {/* Error */}
-                  {evaluationResult.error && (
-                    <div className="text-sm text-form-error">
-                      Error: {evaluationResult.error}
+                  {/* Sections that are ready early */}
+                  {partialEvaluation && (
+                    <div className="space-y-4 pt-3 border-t border-form-border-light">
+                      <EvaluationSections evaluation={partialEvaluation} />
                     </div>
                   )}
+                </div>
+              )}
 
-                  {/* Download PDF Button */}
-                  <div className="pt-3 border-t border-form-border-light">
-                    <button
-                      onClick={downloadPDF}
-                      className="w-full px-4 py-2 bg-form-gold-muted hover:bg-form-gold-muted-dark text-white font-semibold rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                      📥 Download PDF Report
-                    </button>
+              {/* Late delivery - the agent stores the result, we keep checking for it */}
+              {!isEvaluating && !evaluationResult && pendingEvaluationRoom && (
+                <div className="text-center text-form-text-gray py-6 space-y-3">
+                  <div className="text-sm">
+                    Your summary is taking longer than usual. We'll keep checking for it.
                   </div>
+                  <button
+                    onClick={() => recoverEvaluation(pendingEvaluationRoom)}
+                    className="px-4 py-2 text-sm bg-form-off-white hover:bg-form-border-light border border-form-border-light text-form-text-dark rounded-lg transition-colors"
+                  >
+                    Check again
+                  </button>
+                </div>
+              )}
+
+              {evaluationResult && (
+                <div className="space-y-4">
+                  <EvaluationSections
+                    evaluation={evaluationResult}
+                    selectedScenario={activeScenario}
+                    transcript={transcript}
+                    onHighlight={setTranscriptHighlight}
+                  />
+
+                  {/* Download / Export Buttons */}
+                  <EvaluationExportButtons evaluation={evaluationResult} session={sessionMetadata} raw={evaluationRawRef.current} />
                 </div>
               )}
             </div>
           )}
         </div>
       )}
+
+      {/* Session History */}
+      {connectionStatus === 'disconnected' && (
+        <SessionHistory refreshKey={historyVersion} />
+      )}
     </div>
   )
 }
@@ -0,0 +1,79 @@
+'use client'
+
+import { useState } from 'react'
+import RatingScale from './rating-scale'
+import { RATING_ASPECTS, RATING_MAX, RATING_MIN, RatingAspect, boundedTurnLatencies } from '@/lib/voice-ratings'
+
+interface VoiceRatingFormProps {
+  roomName: string
+  turnLatenciesMs: number[]
+}
+
+export default function VoiceRatingForm({ roomName, turnLatenciesMs }: VoiceRatingFormProps) {
+  const [ratings, setRatings] = useState<Partial<Record<RatingAspect, number>>>({})
+  const [status, setStatus] = useState<'idle' | 'submitting' | 'submitted'>('idle')
+  const [error, setError] = useState('')
+
+  const isComplete = RATING_ASPECTS.every(({ key }) => ratings[key] !== undefined)
+
+  const submit = async () => {
+    setStatus('submitting')
+    setError('')
+    try {
+      const response = await fetch('/api/voice-ab/ratings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ roomName, ...ratings, turnLatenciesMs: boundedTurnLatencies(turnLatenciesMs) }),
+      })
+      if (!response.ok) {
+        const { error: ratingError } = await response.json().catch(() => ({}))
+        throw new Error(ratingError || 'Failed to send rating')
+      }
+      setStatus('submitted')
+    } catch (err) {
+      console.warn('Error submitting voice rating:', err)
+      setError(err instanceof Error ? err.message : 'Failed to send rating')
+      setStatus('idle')
+    }
+  }
+
+  if (status === 'submitted') {
+    return (
+      <div className="bg-form-off-white border border-form-border-light rounded-lg p-4 text-sm text-form-text-dark text-center">
+        Thanks! Your voice rating was recorded.
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-form-off-white border border-form-border-light rounded-lg p-4 space-y-3">
+      <div>
+        <h4 className="font-medium text-form-text-dark text-sm">🎧 Rate the Voice</h4>
+        <p className="text-xs text-form-text-gray">
+          This call used one of several voice setups we&apos;re comparing. Rate it from {RATING_MIN} (poor) to {RATING_MAX} (excellent).
+        </p>
+      </div>
+
+      {RATING_ASPECTS.map(aspect => (
+        <RatingScale
+          key={aspect.key}
+          label={aspect.label}
+          hint={aspect.hint}
+          value={ratings[aspect.key]}
+          onChange={(value) => setRatings(prev => ({ ...prev, [aspect.key]: value }))}
+        />
+      ))}
+
+      {error && <p className="text-xs text-form-error">{error}</p>}
+
+      <button
+        type="button"
+        onClick={submit}
+        disabled={!isComplete || status === 'submitting'}
+        className="w-full px-4 py-2 text-sm font-medium bg-form-gold-muted hover:bg-form-gold-muted-dark text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {status === 'submitting' ? 'Sending...' : 'Submit Rating'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+// Data for the /admin operations dashboard
+// Active rooms come live from LiveKit (RoomServiceClient); finished sessions come from the
+// webhook event store joined with the room registry (token minted) and the evaluation store.
+
+import { RoomServiceClient } from 'livekit-server-sdk'
+import { isAgentParticipantInfo } from './agent-dispatch'
+import { ROOM_NAME_PATTERN, loadEvaluation } from './evaluation-store'
+import { normalizeEvaluation } from './evaluation'
+import { loadMintedRoom } from './room-registry'
+import { loadRoomLifecycles } from './webhook-event-store'
+
+export interface ActiveParticipant {
+  identity: string
+  name: string
+  is_agent: boolean
+  joined_at: string
+}
+
+export interface ActiveRoom {
+  room: string
+  created_at: string
+  duration_ms: number
+  participants: ActiveParticipant[]
+  agent_present: boolean
+}
+
+export interface RecentSession {
+  room: string
+  participant: string | null
+  scenario_id: string | null
+  minted_at: string | null
+  started_at: string | null
+  finished_at: string | null
+  duration_ms: number | null
+  agent_joined_at: string | null
+  token_to_agent_ms: number | null  // Token minted → first agent join
+  evaluation_score: number | null
+  evaluation_stored: boolean
+}
+
+const secondsToIso = (seconds: bigint) => new Date(Number(seconds) * 1000).toISOString()
+
+// Null when LiveKit credentials are missing
+export function createRoomServiceClient(): RoomServiceClient | null {
+  const apiKey = process.env.LIVEKIT_API_KEY
+  const apiSecret = process.env.LIVEKIT_API_SECRET
+  const livekitUrl = process.env.LIVEKIT_URL
+  if (!apiKey || !apiSecret || !livekitUrl) return null
+  return new RoomServiceClient(livekitUrl, apiKey, apiSecret)
+}
+
+// Oldest room first, so stuck rooms are at the top
+export async function listActiveRooms(client: RoomServiceClient, now = Date.now()): Promise<ActiveRoom[]> {
+  const rooms = await client.listRooms()
+  const active = await Promise.all(rooms.map(async room => {
+    const participants = (await client.listParticipants(room.name)).map(participant => ({
+      identity: participant.identity,
+      name: participant.name,
+      is_agent: isAgentParticipantInfo(participant),
+      joined_at: secondsToIso(participant.joinedAt),
+    }))
+    const createdAt = Number(room.creationTime) * 1000
+    return {
+      room: room.name,
+      created_at: new Date(createdAt).toISOString(),
+      duration_ms: now - createdAt,
+      participants,
+      agent_present: participants.some(p => p.is_agent),
+    }
+  }))
+  return active.sort((a, b) => a.created_at.localeCompare(b.created_at))
+}
+
+// Finished rooms, newest first
+export async function loadRecentSessions(limit = 25): Promise<RecentSession[]> {
+  const finished = (await loadRoomLifecycles())
+    .filter(lifecycle => lifecycle.finished_at)
+    .slice(0, limit)
+
+  return Promise.all(finished.map(async lifecycle => {
+    // Rooms not created by this app can have names our stores can't look up
+    const known = ROOM_NAME_PATTERN.test(lifecycle.room)
+    const [minted, stored] = known
+      ? await Promise.all([loadMintedRoom(lifecycle.room), loadEvaluation(lifecycle.room)])
+      : [null, null]
+
+    return {
+      room: lifecycle.room,
+      participant: minted?.participant ?? lifecycle.participants.find(p => !p.is_agent)?.identity ?? null,
+      scenario_id: minted?.scenario_id ?? null,
+      minted_at: minted?.minted_at ?? null,
+      started_at: lifecycle.started_at,
+      finished_at: lifecycle.finished_at,
+      duration_ms: lifecycle.duration_ms,
+      agent_joined_at: lifecycle.agent_joined_at,
+      token_to_agent_ms: minted && lifecycle.agent_joined_at
+        ? new Date(lifecycle.agent_joined_at).getTime() - new Date(minted.minted_at).getTime()
+        : null,
+      evaluation_score: stored ? normalizeEvaluation(stored.evaluation).evaluation.overall_score : null,
+      evaluation_stored: stored !== null,
+    }
+  }))
+}
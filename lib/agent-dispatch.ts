@@ -0,0 +1,63 @@
+// Server-side agent dispatch, shared by token minting (auto-dispatch) and explicit redispatch
+
+import { AgentDispatchClient } from 'livekit-server-sdk'
+import { ParticipantInfo, ParticipantInfo_Kind } from '@livekit/protocol'
+import { ResolvedScenario } from './scenarios'
+import { VoiceConfig } from './voice-ab-store'
+
+// Must match the backend's LIVEKIT_AGENT_NAME
+export function getAgentName(): string {
+  return process.env.LIVEKIT_AGENT_NAME || 'voice-bot-grok-test'
+}
+
+// Job metadata the agent reads on dispatch (same shape for auto-dispatch and redispatch)
+// `voice_config` is only present during a blind A/B voice test.
+export function agentDispatchMetadata(roomName: string, participantName: string, scenario: ResolvedScenario, voiceConfig?: VoiceConfig | null): string {
+  return JSON.stringify({
+    room: roomName,
+    participant: participantName,
+    scenario,
+    ...(voiceConfig ? { voice_config: { id: voiceConfig.id, tts: voiceConfig.tts } } : {}),
+  })
+}
+
+// Server-side counterpart of isAgentParticipant: participant kind, then the agent state attribute
+export function isAgentParticipantInfo(participant: ParticipantInfo): boolean {
+  return participant.kind === ParticipantInfo_Kind.AGENT || 'lk.agent.state' in participant.attributes
+}
+
+export async function dispatchAgentToRoom(roomName: string, metadata?: string): Promise<boolean> {
+  const startTime = Date.now()
+  const agentName = getAgentName()
+  console.info(`[DISPATCH_START] roomName=${roomName} timestamp=${startTime}`)
+
+  try {
+    const apiKey = process.env.LIVEKIT_API_KEY
+    const apiSecret = process.env.LIVEKIT_API_SECRET
+    const liveKitUrl = process.env.LIVEKIT_URL
+
+    if (!apiKey || !apiSecret || !liveKitUrl) {
+      console.error('[DISPATCH_FAILED] Missing LiveKit credentials - apiKey exists: ' + !!apiKey + ', apiSecret exists: ' + !!apiSecret + ', liveKitUrl exists: ' + !!liveKitUrl)
+      return false
+    }
+
+    console.info(`[DISPATCH_CREDENTIALS_OK] liveKitUrl=${liveKitUrl}`)
+
+    // Initialize LiveKit AgentDispatchClient
+    const dispatchClient = new AgentDispatchClient(liveKitUrl, apiKey, apiSecret)
+    console.info(`[DISPATCH_CLIENT_CREATED] roomName=${roomName}`)
+
+    // Create a dispatch for the agent to join the room
+    console.info(`[DISPATCH_CALLING_API] roomName=${roomName} agentName=${agentName}`)
+    const dispatch = await dispatchClient.createDispatch(roomName, agentName, { metadata })
+
+    const duration = Date.now() - startTime
+    console.info(`[DISPATCH_SUCCESS] roomName=${roomName} dispatchId=${dispatch.id} duration_ms=${duration} status=success`)
+
+    return true
+  } catch (error) {
+    const duration = Date.now() - startTime
+    console.error(`[DISPATCH_FAILED] roomName=${roomName} duration_ms=${duration} error=${error instanceof Error ? error.message : String(error)}`)
+    return false
+  }
+}
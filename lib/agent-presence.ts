@@ -0,0 +1,39 @@
+// Agent participant detection (join watchdog) and turn state (speaking indicators)
+
+import { Participant, ParticipantKind } from 'livekit-client'
+
+export type AgentStatus = 'waiting' | 'present' | 'missing' | 'redispatching'
+
+// Published by LiveKit Agents as the `lk.agent.state` participant attribute
+export type AgentState = 'initializing' | 'listening' | 'thinking' | 'speaking'
+
+export type TurnState = 'user_speaking' | 'agent_speaking' | 'agent_thinking' | 'idle'
+
+const AGENT_STATE_ATTRIBUTE = 'lk.agent.state'
+const AGENT_STATES: AgentState[] = ['initializing', 'listening', 'thinking', 'speaking']
+
+// How long after connecting we wait for an agent before redispatching
+export const AGENT_JOIN_TIMEOUT_MS = Number(process.env.NEXT_PUBLIC_AGENT_JOIN_TIMEOUT_MS) || 15000
+
+export function isAgentParticipant(participant: Participant): boolean {
+  if (participant.kind === ParticipantKind.AGENT) return true
+  // LiveKit Agents publish their state as an attribute even on older servers without participant kinds
+  if (AGENT_STATE_ATTRIBUTE in participant.attributes) return true
+  // Legacy fallback for workers that only mark themselves by identity
+  return participant.identity.includes('agent')
+}
+
+export function readAgentState(participant: Participant): AgentState | null {
+  const state = participant.attributes[AGENT_STATE_ATTRIBUTE]
+  return AGENT_STATES.includes(state as AgentState) ? (state as AgentState) : null
+}
+
+// Active speakers say who is audible right now; the agent state attribute fills the gap while
+// the agent is generating a reply (thinking) and covers agents that don't report audio levels.
+// The user wins when both are audible, so an interruption shows up immediately.
+export function deriveTurnState(agentState: AgentState | null, agentAudible: boolean, userAudible: boolean): TurnState {
+  if (userAudible) return 'user_speaking'
+  if (agentState === 'speaking' || agentAudible) return 'agent_speaking'
+  if (agentState === 'thinking') return 'agent_thinking'
+  return 'idle'
+}
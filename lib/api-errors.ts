@@ -0,0 +1,35 @@
+// Structured error bodies returned by the API routes ({ error, code, retryAfterSeconds? })
+// Client-safe: VoiceBotInterface uses `describeApiError` to turn them into user-facing messages.
+
+export type ApiErrorCode =
+  | 'auth_required'
+  | 'auth_not_configured'
+  | 'invalid_access_code'
+  | 'forbidden'
+  | 'not_found'
+  | 'rate_limited'
+  | 'invalid_request'
+
+export interface ApiErrorBody {
+  error: string
+  code?: ApiErrorCode
+  retryAfterSeconds?: number
+}
+
+export function describeApiError(status: number, body: Partial<ApiErrorBody>): string {
+  switch (body.code ?? status) {
+    case 'auth_required':
+    case 401:
+      return 'Please enter your access code to start a conversation.'
+    case 'forbidden':
+    case 403:
+      return body.error || 'You don\'t have access to this conversation.'
+    case 'rate_limited':
+    case 429:
+      return body.retryAfterSeconds
+        ? `Too many attempts. Please wait ${body.retryAfterSeconds} seconds and try again.`
+        : 'Too many attempts. Please wait a moment and try again.'
+    default:
+      return body.error || 'Failed to get access token'
+  }
+}
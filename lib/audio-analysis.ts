@@ -0,0 +1,92 @@
+// Audio analysis on the call's shared AudioContext
+// Agent audio: element source -> gain -> destination, with an analyser tapped off
+// the gain so the waveform reflects what the user hears. Mic audio: stream source
+// -> analyser only (never routed to the speakers).
+
+export interface AudioLevel {
+  rms: number   // 0..1
+  peak: number  // 0..1
+}
+
+export type MicHealth = 'ok' | 'silent' | 'clipping'
+
+const FFT_SIZE = 1024
+
+export function createAnalyser(context: AudioContext): AnalyserNode {
+  const analyser = context.createAnalyser()
+  analyser.fftSize = FFT_SIZE
+  analyser.smoothingTimeConstant = 0.6
+  return analyser
+}
+
+// Route a remote audio element through the context. Can only be called once per element.
+export function tapMediaElement(context: AudioContext, element: HTMLMediaElement) {
+  const source = context.createMediaElementSource(element)
+  const gain = context.createGain()
+  const analyser = createAnalyser(context)
+
+  source.connect(gain)
+  gain.connect(context.destination)
+  gain.connect(analyser)
+
+  return { source, gain, analyser }
+}
+
+export function tapMediaStreamTrack(context: AudioContext, track: MediaStreamTrack) {
+  const source = context.createMediaStreamSource(new MediaStream([track]))
+  const analyser = createAnalyser(context)
+  source.connect(analyser)
+  return { source, analyser }
+}
+
+export function readLevel(analyser: AnalyserNode, buffer: Float32Array<ArrayBuffer>): AudioLevel {
+  analyser.getFloatTimeDomainData(buffer)
+  let sum = 0
+  let peak = 0
+  for (let i = 0; i < buffer.length; i++) {
+    const sample = Math.abs(buffer[i])
+    sum += sample * sample
+    if (sample > peak) peak = sample
+  }
+  return { rms: Math.sqrt(sum / buffer.length), peak }
+}
+
+// A dead or blocked mic produces digital silence, well below any room noise
+const SILENCE_RMS = 0.0015
+const CLIP_PEAK = 0.98
+const CLIP_HOLD_MS = 300  // clipping counts as ongoing if it recurred this recently
+
+export interface MicHealthMonitor {
+  update(level: AudioLevel, now: number): MicHealth
+  reset(): void
+}
+
+// Reports a problem only once it has lasted `warnAfterMs`
+export function createMicHealthMonitor(warnAfterMs = 4000): MicHealthMonitor {
+  let silentSince: number | null = null
+  let clippingSince: number | null = null
+  let lastClipAt = 0
+
+  return {
+    update(level, now) {
+      silentSince = level.rms < SILENCE_RMS ? silentSince ?? now : null
+
+      if (level.peak >= CLIP_PEAK) {
+        clippingSince = clippingSince ?? now
+        lastClipAt = now
+      } else if (now - lastClipAt > CLIP_HOLD_MS) {
+        clippingSince = null
+      }
+
+      if (clippingSince !== null && now - clippingSince >= warnAfterMs) return 'clipping'
+      if (silentSince !== null && now - silentSince >= warnAfterMs) return 'silent'
+      return 'ok'
+    },
+
+    reset() {
+      silentSince = null
+      clippingSince = null
+      lastClipAt = 0
+    },
+  }
+}
@@ -0,0 +1,86 @@
+// Mic processing, publishing and playback settings, persisted per browser (localStorage)
+// The same options are used at connect time and on unmute, and a snapshot of them is
+// stored with each session so audio setup can be correlated with evaluation quality.
+
+import type { AudioCaptureOptions, TrackPublishOptions } from 'livekit-client'
+
+const STORAGE_KEY = 'voice-bot:audio-settings'
+
+export interface AudioSettings {
+  echoCancellation: boolean
+  noiseSuppression: boolean
+  autoGainControl: boolean
+  maxBitrate: number  // bps
+  dtx: boolean
+  red: boolean
+  agentVolume: number  // gain applied to agent audio, 1 = unchanged
+}
+
+export const BITRATE_OPTIONS = [16000, 24000, 32000, 48000, 64000]
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  maxBitrate: 32000,
+  dtx: true,
+  red: true,
+  agentVolume: 1,
+}
+
+export function loadAudioSettings(): AudioSettings {
+  if (typeof window === 'undefined') return DEFAULT_AUDIO_SETTINGS
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || 'null')
+    if (!stored || typeof stored !== 'object') return DEFAULT_AUDIO_SETTINGS
+
+    // Only keep known keys with the right type, so old or hand-edited values can't break publishing
+    const settings = { ...DEFAULT_AUDIO_SETTINGS }
+    ;(Object.keys(DEFAULT_AUDIO_SETTINGS) as (keyof AudioSettings)[]).forEach(key => {
+      if (typeof stored[key] === typeof DEFAULT_AUDIO_SETTINGS[key]) {
+        (settings as Record<string, unknown>)[key] = stored[key]
+      }
+    })
+    if (!BITRATE_OPTIONS.includes(settings.maxBitrate)) settings.maxBitrate = DEFAULT_AUDIO_SETTINGS.maxBitrate
+    settings.agentVolume = Math.min(Math.max(settings.agentVolume, 0), 2)
+    return settings
+  } catch {
+    return DEFAULT_AUDIO_SETTINGS
+  }
+}
+
+export function saveAudioSettings(settings: AudioSettings): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  } catch (err) {
+    console.warn('Failed to save audio settings:', err)
+  }
+}
+
+export function micCaptureOptions(settings: AudioSettings): AudioCaptureOptions {
+  return {
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl,
+  }
+}
+
+// LiveKit ignores capture/publish options when re-enabling an existing mic publication,
+// so callers compare against what the live track was created with
+export function captureSettingsChanged(a: AudioSettings, b: AudioSettings): boolean {
+  return a.echoCancellation !== b.echoCancellation
+    || a.noiseSuppression !== b.noiseSuppression
+    || a.autoGainControl !== b.autoGainControl
+}
+
+export function publishSettingsChanged(a: AudioSettings, b: AudioSettings): boolean {
+  return a.maxBitrate !== b.maxBitrate || a.dtx !== b.dtx || a.red !== b.red
+}
+
+export function micPublishOptions(settings: AudioSettings): TrackPublishOptions {
+  return {
+    audioPreset: { maxBitrate: settings.maxBitrate },
+    dtx: settings.dtx,
+    red: settings.red,
+  }
+}
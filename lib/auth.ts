@@ -0,0 +1,165 @@
+// Pluggable request authentication for routes that cost money (token minting, agent dispatch)
+// Providers are tried in order; the first one that recognizes the request wins:
+//   - shared secret: `Authorization: Bearer $TOKEN_API_SECRET` (scripts, server-to-server)
+//   - session cookie: signed with SESSION_SECRET, issued by /api/auth/session for a valid ACCESS_CODE
+// With no provider configured, requests are let through in development and refused in production.
+// Admin routes and the /admin page use a separate check: `Bearer $ADMIN_API_SECRET`, or the
+// admin cookie that /api/admin/session issues for the same secret.
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto'
+import { ApiErrorBody, ApiErrorCode } from './api-errors'
+
+export const SESSION_COOKIE_NAME = 'voice-bot-session'
+export const SESSION_MAX_AGE_SECONDS = 12 * 60 * 60
+export const ADMIN_COOKIE_NAME = 'voice-bot-admin'
+export const ADMIN_SESSION_MAX_AGE_SECONDS = 8 * 60 * 60
+
+export interface AuthIdentity {
+  subject: string  // Stable per caller; used for room ownership and per-identity rate limits
+  method: 'shared_secret' | 'session' | 'none'
+}
+
+export type AuthProvider = (request: NextRequest) => Promise<AuthIdentity | null>
+
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && timingSafeEqual(left, right)
+}
+
+// `Authorization: Bearer <secret>`, compared in constant time
+export function hasBearerSecret(request: NextRequest, secret: string): boolean {
+  const header = request.headers.get('Authorization') || ''
+  return header.startsWith('Bearer ') && safeEqual(header.slice(7), secret)
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url')
+}
+
+// `<base64url JSON payload>.<HMAC>` with an `exp` claim in unix seconds
+function createSignedValue(claims: Record<string, unknown>, maxAgeSeconds: number, secret: string): string {
+  const payload = Buffer.from(JSON.stringify({
+    ...claims,
+    exp: Math.floor(Date.now() / 1000) + maxAgeSeconds,
+  })).toString('base64url')
+  return `${payload}.${sign(payload, secret)}`
+}
+
+function readSignedValue(value: string, secret: string): Record<string, unknown> | null {
+  const [payload, signature] = value.split('.')
+  if (!payload || !signature || !safeEqual(signature, sign(payload, secret))) return null
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+    if (typeof claims.exp !== 'number' || claims.exp * 1000 < Date.now()) return null
+    return claims
+  } catch {
+    return null
+  }
+}
+
+export function sharedSecretProvider(secret: string): AuthProvider {
+  return async (request) => {
+    if (!hasBearerSecret(request, secret)) return null
+    return { subject: 'shared-secret', method: 'shared_secret' }
+  }
+}
+
+export function sessionCookieProvider(secret: string): AuthProvider {
+  return async (request) => {
+    const cookie = request.cookies.get(SESSION_COOKIE_NAME)?.value
+    if (!cookie) return null
+
+    const claims = readSignedValue(cookie, secret)
+    if (typeof claims?.sub !== 'string' || claims.scope === 'admin') return null
+    return { subject: `session:${claims.sub}`, method: 'session' }
+  }
+}
+
+export function configuredAuthProviders(): AuthProvider[] {
+  const providers: AuthProvider[] = []
+  if (process.env.TOKEN_API_SECRET) providers.push(sharedSecretProvider(process.env.TOKEN_API_SECRET))
+  if (process.env.SESSION_SECRET) providers.push(sessionCookieProvider(process.env.SESSION_SECRET))
+  return providers
+}
+
+// Client IP for per-IP rate limits. The left of `x-forwarded-for` is whatever the client sent,
+// so only hops added by our own proxies are trusted:
+//   - CLIENT_IP_HEADER: a header the platform sets and overwrites (e.g. `x-real-ip`, `cf-connecting-ip`)
+//   - otherwise the entry TRUSTED_PROXY_COUNT (default 1) places from the right of `x-forwarded-for`
+export function clientIp(request: NextRequest): string {
+  const header = process.env.CLIENT_IP_HEADER
+  if (header) return request.headers.get(header)?.trim() || 'unknown'
+
+  const hops = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean)
+  const trustedProxies = Number(process.env.TRUSTED_PROXY_COUNT ?? 1)
+  if (!Number.isInteger(trustedProxies) || trustedProxies < 1) return 'unknown'
+  return hops[hops.length - trustedProxies] || 'unknown'
+}
+
+export function apiError(status: number, code: ApiErrorCode, error: string, retryAfterSeconds?: number): NextResponse {
+  const body: ApiErrorBody = { error, code, ...(retryAfterSeconds ? { retryAfterSeconds } : {}) }
+  return NextResponse.json(body, {
+    status,
+    headers: retryAfterSeconds ? { 'Retry-After': String(retryAfterSeconds) } : undefined,
+  })
+}
+
+export async function authenticate(
+  request: NextRequest,
+  providers: AuthProvider[] = configuredAuthProviders()
+): Promise<{ identity: AuthIdentity } | { response: NextResponse }> {
+  if (providers.length === 0) {
+    if (process.env.NODE_ENV === 'production') {
+      console.error('[AUTH_NOT_CONFIGURED] Set TOKEN_API_SECRET or SESSION_SECRET + ACCESS_CODE')
+      return { response: apiError(503, 'auth_not_configured', 'Authentication is not configured') }
+    }
+    console.warn('[AUTH_DISABLED] No auth provider configured, allowing request (development only)')
+    return { identity: { subject: `anonymous:${clientIp(request)}`, method: 'none' } }
+  }
+
+  for (const provider of providers) {
+    const identity = await provider(request)
+    if (identity) return { identity }
+  }
+  return { response: apiError(401, 'auth_required', 'Authentication required') }
+}
+
+// Value for the signed session cookie set by /api/auth/session
+export function createSessionCookieValue(secret: string): string {
+  return createSignedValue({ sub: randomUUID() }, SESSION_MAX_AGE_SECONDS, secret)
+}
+
+// Value for the admin cookie set by /api/admin/session, signed with ADMIN_API_SECRET
+export function createAdminCookieValue(secret: string): string {
+  return createSignedValue({ sub: 'admin', scope: 'admin' }, ADMIN_SESSION_MAX_AGE_SECONDS, secret)
+}
+
+// For server components, which only have the cookie value
+export function isValidAdminCookie(value: string | undefined): boolean {
+  const secret = process.env.ADMIN_API_SECRET
+  if (!secret || !value) return false
+  return readSignedValue(value, secret)?.scope === 'admin'
+}
+
+export function isAdminRequest(request: NextRequest): boolean {
+  const secret = process.env.ADMIN_API_SECRET
+  if (!secret) return false
+  if (hasBearerSecret(request, secret)) return true
+  return isValidAdminCookie(request.cookies.get(ADMIN_COOKIE_NAME)?.value)
+}
+
+export function isValidAdminSecret(value: unknown): boolean {
+  const expected = process.env.ADMIN_API_SECRET
+  return Boolean(expected) && typeof value === 'string' && safeEqual(value, expected as string)
+}
+
+export function isValidAccessCode(code: unknown): boolean {
+  const expected = process.env.ACCESS_CODE
+  return Boolean(expected) && typeof code === 'string' && safeEqual(code, expected as string)
+}
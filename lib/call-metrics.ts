@@ -0,0 +1,115 @@
+// Voice speed and call quality metrics collected during a call
+// Turn latency is measured client-side, from the user going quiet to the first sign of agent
+// audio (active speaker update or the agent's `speaking` state), so it includes LiveKit's
+// speaker detection delay. It is meant for comparing voice configurations, not as an absolute.
+
+import { ConnectionQuality, LocalAudioTrack, RemoteAudioTrack, Room, Track } from 'livekit-client'
+import { isAgentParticipant } from './agent-presence'
+import { PercentileSummary, summarize } from './stats'
+
+export interface QualitySample {
+  timestamp: number
+  rttMs: number | null
+  jitterMs: number | null
+  packetLossPct: number | null  // Loss since the previous sample
+}
+
+// Compact per-session report, stored with the session and included in exports
+export interface CallMetricsReport {
+  turnLatenciesMs: number[]
+  latency: PercentileSummary | null
+  rttMs: PercentileSummary | null
+  jitterMs: PercentileSummary | null
+  packetLossPct: PercentileSummary | null
+  qualityChanges: { timestamp: number; quality: ConnectionQuality }[]
+  lastSample: QualitySample | null
+}
+
+export const QUALITY_SAMPLE_INTERVAL_MS = 5000
+
+export function createCallMetricsCollector() {
+  let turnLatencies: number[] = []
+  let samples: QualitySample[] = []
+  let qualityChanges: CallMetricsReport['qualityChanges'] = []
+  let userSpeaking = false
+  let userStoppedAt: number | null = null  // Pending turn waiting for the agent
+
+  return {
+    userSpeaking(speaking: boolean, at = Date.now()) {
+      if (userSpeaking && !speaking) userStoppedAt = at
+      if (speaking) userStoppedAt = null  // Still the user's turn
+      userSpeaking = speaking
+    },
+
+    // Only the first agent audio after the user stopped counts for a turn
+    agentSpeaking(speaking: boolean, at = Date.now()) {
+      if (!speaking || userStoppedAt === null) return
+      turnLatencies.push(at - userStoppedAt)
+      userStoppedAt = null
+    },
+
+    addQualitySample(sample: QualitySample) {
+      samples.push(sample)
+    },
+
+    connectionQualityChanged(quality: ConnectionQuality, at = Date.now()) {
+      qualityChanges.push({ timestamp: at, quality })
+    },
+
+    report(): CallMetricsReport {
+      const values = (key: 'rttMs' | 'jitterMs' | 'packetLossPct') =>
+        samples.flatMap(sample => sample[key] === null ? [] : [sample[key] as number])
+      return {
+        turnLatenciesMs: turnLatencies.slice(),
+        latency: summarize(turnLatencies),
+        rttMs: summarize(values('rttMs')),
+        jitterMs: summarize(values('jitterMs')),
+        packetLossPct: summarize(values('packetLossPct')),
+        qualityChanges: qualityChanges.slice(),
+        lastSample: samples[samples.length - 1] ?? null,
+      }
+    },
+
+    reset() {
+      turnLatencies = []
+      samples = []
+      qualityChanges = []
+      userSpeaking = false
+      userStoppedAt = null
+    },
+  }
+}
+
+export type CallMetricsCollector = ReturnType<typeof createCallMetricsCollector>
+
+// Samples WebRTC stats for the mic (RTT as reported by the server) and the agent's audio
+// (jitter, packet loss). Packet counters are cumulative, so loss is computed per interval.
+export function createQualitySampler(room: Room) {
+  let previous: { lost: number; received: number } | null = null
+
+  return async function sample(): Promise<QualitySample> {
+    const micTrack = room.localParticipant.getTrackPublication(Track.Source.Microphone)?.track
+    const sender = micTrack instanceof LocalAudioTrack ? await micTrack.getSenderStats() : undefined
+
+    const agent = Array.from(room.remoteParticipants.values()).find(isAgentParticipant)
+    const agentTrack = agent?.getTrackPublication(Track.Source.Microphone)?.track
+      ?? agent?.audioTrackPublications.values().next().value?.track
+    const receiver = agentTrack instanceof RemoteAudioTrack ? await agentTrack.getReceiverStats() : undefined
+
+    let packetLossPct: number | null = null
+    if (receiver?.packetsLost !== undefined && receiver.packetsReceived !== undefined) {
+      const current = { lost: receiver.packetsLost, received: receiver.packetsReceived }
+      const lost = current.lost - (previous?.lost ?? 0)
+      const total = lost + current.received - (previous?.received ?? 0)
+      packetLossPct = total > 0 ? Math.max(0, (lost / total) * 100) : null
+      previous = current
+    }
+
+    return {
+      timestamp: Date.now(),
+      rttMs: sender?.roundTripTime !== undefined ? sender.roundTripTime * 1000 : null,
+      jitterMs: receiver?.jitter !== undefined ? receiver.jitter * 1000 : null,
+      packetLossPct,
+    }
+  }
+}
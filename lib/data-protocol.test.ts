@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { PROTOCOL_VERSION, createMessageRouter, decodeMessage, encodeMessage } from './data-protocol'
+
+const bytes = (value: unknown) => new TextEncoder().encode(typeof value === 'string' ? value : JSON.stringify(value))
+
+function decodeError(value: unknown) {
+  const result = decodeMessage(bytes(value))
+  if (result.ok) throw new Error(`Expected ${JSON.stringify(value)} to be rejected`)
+  return result.error
+}
+
+describe('decodeMessage', () => {
+  it('decodes what encodeMessage produces', () => {
+    const result = decodeMessage(encodeMessage({ type: 'evaluate', value: true, protocol_version: PROTOCOL_VERSION }))
+    expect(result).toEqual({
+      ok: true,
+      message: { type: 'evaluate', value: true, protocol_version: PROTOCOL_VERSION, v: PROTOCOL_VERSION },
+    })
+  })
+
+  it('accepts messages without `v` as version 0', () => {
+    expect(decodeMessage(bytes({ type: 'ping' }))).toEqual({ ok: true, message: { type: 'ping', v: 0 } })
+  })
+
+  it('rejects payloads that are not a JSON object with a type', () => {
+    expect(decodeError('{not json').reason).toBe('malformed')
+    expect(decodeError([1, 2]).reason).toBe('malformed')
+    expect(decodeError({ v: 1 }).reason).toBe('malformed')
+  })
+
+  it('rejects versions newer than the client', () => {
+    expect(decodeError({ type: 'ping', v: PROTOCOL_VERSION + 1 })).toMatchObject({ reason: 'unsupported_version', type: 'ping' })
+  })
+
+  it.each(['nope', 'toString', 'constructor', '__proto__'])('reports %s as an unknown type', type => {
+    expect(decodeError({ type })).toMatchObject({ reason: 'unknown_type', type })
+  })
+
+  it('validates message payloads', () => {
+    expect(decodeError({ type: 'evaluation_ready', data: [] }).reason).toBe('invalid_payload')
+    expect(decodeError({ type: 'transcript', data: { speaker: 'narrator', text: 'hi' } }).reason).toBe('invalid_payload')
+    expect(decodeError({ type: 'evaluate', value: 'yes' }).reason).toBe('invalid_payload')
+  })
+
+  it('decodes evaluation progress, treating missing and null fields alike', () => {
+    expect(decodeMessage(bytes({ v: 1, type: 'evaluation_progress', stage: 'scoring' }))).toEqual({
+      ok: true,
+      message: { type: 'evaluation_progress', stage: 'scoring', percent: null, partial: null, v: 1 },
+    })
+    expect(decodeMessage(bytes({ v: 1, type: 'evaluation_progress', stage: 'scoring', percent: null, partial: null }))).toEqual({
+      ok: true,
+      message: { type: 'evaluation_progress', stage: 'scoring', percent: null, partial: null, v: 1 },
+    })
+    expect(decodeError({ type: 'evaluation_progress', stage: 'scoring', percent: 140 }).reason).toBe('invalid_payload')
+    expect(decodeError({ type: 'evaluation_progress', stage: 'scoring', partial: ['summary'] }).reason).toBe('invalid_payload')
+  })
+})
+
+describe('createMessageRouter', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('routes decoded messages to the handlers for their type', () => {
+    const router = createMessageRouter()
+    const onPing = vi.fn()
+    const onReady = vi.fn()
+    router.on('ping', onPing)
+    router.on('evaluation_ready', onReady)
+
+    router.handle(bytes({ v: 1, type: 'ping' }))
+
+    expect(onPing).toHaveBeenCalledWith({ type: 'ping', v: 1 }, undefined)
+    expect(onReady).not.toHaveBeenCalled()
+  })
+
+  it('reports decode failures and messages nobody handles', () => {
+    const router = createMessageRouter()
+    const onError = vi.fn()
+    router.onError(onError)
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    router.handle(bytes('garbage'))
+    router.handle(bytes({ type: 'ping' }))
+
+    expect(onError.mock.calls.map(([error]) => error.reason)).toEqual(['malformed', 'unknown_type'])
+  })
+
+  it('stops calling a handler after it unsubscribes', () => {
+    const router = createMessageRouter()
+    const onPing = vi.fn()
+    const unsubscribe = router.on('ping', onPing)
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    unsubscribe()
+    router.handle(bytes({ type: 'ping' }))
+
+    expect(onPing).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,222 @@
+// Data channel protocol shared with the agent
+// Every message is a JSON envelope `{ v, type, ...payload }`. Messages without `v`
+// come from agents that predate versioning and are accepted as version 0.
+
+import type { LocalParticipant, RemoteParticipant } from 'livekit-client'
+import { TranscriptLine, parseTranscriptData } from './transcript'
+
+export const PROTOCOL_VERSION = 1
+
+// Agent -> client
+export interface PingMessage {
+  type: 'ping'
+}
+
+export interface EvaluationReadyMessage {
+  type: 'evaluation_ready'
+  data: Record<string, unknown>
+}
+
+export interface EvaluationProgressMessage {
+  type: 'evaluation_progress'
+  stage: string
+  percent: number | null
+  partial: Record<string, unknown> | null  // Evaluation sections that are ready early
+}
+
+export interface TranscriptMessage {
+  type: 'transcript'
+  data: TranscriptLine
+}
+
+// Client -> agent
+export interface EvaluateMessage {
+  type: 'evaluate'
+  value: boolean
+  protocol_version: number
+}
+
+export interface RequestEvaluationMessage {
+  type: 'request_evaluation'
+}
+
+export interface CancelEvaluationMessage {
+  type: 'cancel_evaluation'
+}
+
+export type IncomingMessage = PingMessage | EvaluationReadyMessage | EvaluationProgressMessage | TranscriptMessage
+export type OutgoingMessage = EvaluateMessage | RequestEvaluationMessage | CancelEvaluationMessage
+export type DataMessage = IncomingMessage | OutgoingMessage
+export type DataMessageType = DataMessage['type']
+
+export type Envelope<M extends DataMessage = DataMessage> = M & { v: number }
+
+export type ProtocolErrorReason = 'malformed' | 'unknown_type' | 'invalid_payload' | 'unsupported_version'
+
+export interface ProtocolError {
+  reason: ProtocolErrorReason
+  detail: string
+  type?: string
+  raw: string
+}
+
+export type DecodeResult =
+  | { ok: true; message: Envelope }
+  | { ok: false; error: ProtocolError }
+
+// Runtime validators, one per message type. Each returns the typed message or an error detail.
+type Validator = (raw: Record<string, any>) => DataMessage | string
+
+const validators: Record<DataMessageType, Validator> = {
+  ping: () => ({ type: 'ping' }),
+  evaluation_ready: (raw) => {
+    if (!raw.data || typeof raw.data !== 'object' || Array.isArray(raw.data)) {
+      return 'evaluation_ready.data must be an object'
+    }
+    return { type: 'evaluation_ready', data: raw.data }
+  },
+  // percent and partial may be missing or null (Python agents send None)
+  evaluation_progress: (raw) => {
+    if (typeof raw.stage !== 'string') return 'evaluation_progress.stage must be a string'
+    if (raw.percent != null && (typeof raw.percent !== 'number' || raw.percent < 0 || raw.percent > 100)) {
+      return 'evaluation_progress.percent must be a number between 0 and 100'
+    }
+    if (raw.partial != null && (typeof raw.partial !== 'object' || Array.isArray(raw.partial))) {
+      return 'evaluation_progress.partial must be an object'
+    }
+    return {
+      type: 'evaluation_progress',
+      stage: raw.stage,
+      percent: typeof raw.percent === 'number' ? raw.percent : null,
+      partial: raw.partial ?? null,
+    }
+  },
+  transcript: (raw) => {
+    const line = parseTranscriptData(raw.data)
+    if (!line) return 'transcript.data must have speaker (agent|user) and text'
+    return { type: 'transcript', data: line }
+  },
+  evaluate: (raw) => {
+    if (typeof raw.value !== 'boolean') return 'evaluate.value must be a boolean'
+    return {
+      type: 'evaluate',
+      value: raw.value,
+      protocol_version: typeof raw.protocol_version === 'number' ? raw.protocol_version : 0,
+    }
+  },
+  request_evaluation: () => ({ type: 'request_evaluation' }),
+  cancel_evaluation: () => ({ type: 'cancel_evaluation' }),
+}
+
+export function encodeMessage(message: OutgoingMessage): Uint8Array {
+  const envelope: Envelope = { ...message, v: PROTOCOL_VERSION }
+  return new TextEncoder().encode(JSON.stringify(envelope))
+}
+
+export function decodeMessage(payload: Uint8Array): DecodeResult {
+  const raw = new TextDecoder().decode(payload)
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch {
+    return { ok: false, error: { reason: 'malformed', detail: 'Payload is not valid JSON', raw } }
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { ok: false, error: { reason: 'malformed', detail: 'Payload is not a JSON object', raw } }
+  }
+
+  const obj = parsed as Record<string, any>
+  if (typeof obj.type !== 'string') {
+    return { ok: false, error: { reason: 'malformed', detail: 'Missing message type', raw } }
+  }
+
+  const version = obj.v === undefined ? 0 : obj.v
+  if (typeof version !== 'number' || version > PROTOCOL_VERSION) {
+    return {
+      ok: false,
+      error: { reason: 'unsupported_version', detail: `Unsupported protocol version: ${String(obj.v)}`, type: obj.type, raw },
+    }
+  }
+
+  // Own keys only, so names like "toString" don't resolve to Object.prototype
+  const validate = Object.prototype.hasOwnProperty.call(validators, obj.type)
+    ? validators[obj.type as DataMessageType]
+    : undefined
+  if (!validate) {
+    return { ok: false, error: { reason: 'unknown_type', detail: `Unknown message type: ${obj.type}`, type: obj.type, raw } }
+  }
+
+  const result = validate(obj)
+  if (typeof result === 'string') {
+    return { ok: false, error: { reason: 'invalid_payload', detail: result, type: obj.type, raw } }
+  }
+
+  return { ok: true, message: { ...result, v: version } }
+}
+
+export async function sendMessage(participant: LocalParticipant, message: OutgoingMessage): Promise<void> {
+  await participant.publishData(encodeMessage(message), { reliable: true })
+}
+
+// Subscription API
+type MessageOfType<T extends DataMessageType> = Envelope<Extract<DataMessage, { type: T }>>
+type MessageHandler<T extends DataMessageType> = (message: MessageOfType<T>, participant?: RemoteParticipant) => void
+type ErrorHandler = (error: ProtocolError, participant?: RemoteParticipant) => void
+
+export interface MessageRouter {
+  on<T extends DataMessageType>(type: T, handler: MessageHandler<T>): () => void
+  onError(handler: ErrorHandler): () => void
+  handle(payload: Uint8Array, participant?: RemoteParticipant): void
+}
+
+export function createMessageRouter(): MessageRouter {
+  const handlers = new Map<DataMessageType, Set<MessageHandler<any>>>()
+  const errorHandlers = new Set<ErrorHandler>()
+
+  const reportError = (error: ProtocolError, participant?: RemoteParticipant) => {
+    console.warn(`[DATA_PROTOCOL_ERROR] reason=${error.reason} type=${error.type ?? 'none'} from=${participant?.identity || 'unknown'}: ${error.detail}`)
+    errorHandlers.forEach(handler => handler(error, participant))
+  }
+
+  return {
+    on(type, handler) {
+      if (!handlers.has(type)) handlers.set(type, new Set())
+      handlers.get(type)!.add(handler)
+      return () => { handlers.get(type)?.delete(handler) }
+    },
+
+    onError(handler) {
+      errorHandlers.add(handler)
+      return () => { errorHandlers.delete(handler) }
+    },
+
+    handle(payload, participant) {
+      const result = decodeMessage(payload)
+      if (!result.ok) {
+        reportError(result.error, participant)
+        return
+      }
+
+      const subscribers = handlers.get(result.message.type)
+      if (!subscribers || subscribers.size === 0) {
+        reportError({
+          reason: 'unknown_type',
+          detail: `No handler registered for ${result.message.type}`,
+          type: result.message.type,
+          raw: new TextDecoder().decode(payload),
+        }, participant)
+        return
+      }
+
+      subscribers.forEach(handler => {
+        try {
+          handler(result.message, participant)
+        } catch (err) {
+          console.warn(`Error handling ${result.message.type} message:`, err)
+        }
+      })
+    },
+  }
+}
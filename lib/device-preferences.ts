@@ -0,0 +1,54 @@
+// Audio device choices, remembered between visits (localStorage)
+
+const STORAGE_KEY = 'voice-bot:devices'
+
+export interface DeviceSelection {
+  audioInputId: string | null
+  audioOutputId: string | null
+}
+
+export const DEFAULT_DEVICE_SELECTION: DeviceSelection = {
+  audioInputId: null,
+  audioOutputId: null,
+}
+
+export function loadDeviceSelection(): DeviceSelection {
+  if (typeof window === 'undefined') return DEFAULT_DEVICE_SELECTION
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || 'null')
+    return {
+      audioInputId: typeof stored?.audioInputId === 'string' ? stored.audioInputId : null,
+      audioOutputId: typeof stored?.audioOutputId === 'string' ? stored.audioOutputId : null,
+    }
+  } catch {
+    return DEFAULT_DEVICE_SELECTION
+  }
+}
+
+export function saveDeviceSelection(selection: DeviceSelection): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(selection))
+  } catch (err) {
+    console.warn('Failed to save device selection:', err)
+  }
+}
+
+// Drop remembered ids for devices that are no longer plugged in
+export function reconcileDeviceSelection(
+  selection: DeviceSelection,
+  inputs: MediaDeviceInfo[],
+  outputs: MediaDeviceInfo[]
+): DeviceSelection {
+  const has = (devices: MediaDeviceInfo[], id: string | null) => !!id && devices.some(d => d.deviceId === id)
+  return {
+    audioInputId: has(inputs, selection.audioInputId) ? selection.audioInputId : inputs[0]?.deviceId ?? null,
+    audioOutputId: has(outputs, selection.audioOutputId) ? selection.audioOutputId : outputs[0]?.deviceId ?? null,
+  }
+}
+
+// Result of the pre-call check; 'denied' and 'no_device' block starting a call
+export type MicStatus = 'checking' | 'prompt' | 'ready' | 'denied' | 'no_device'
+
+export function isMicBlocking(status: MicStatus): boolean {
+  return status === 'denied' || status === 'no_device'
+}
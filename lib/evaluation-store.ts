@@ -0,0 +1,44 @@
+// Server-side evaluation store
+// The agent POSTs finished evaluations to /api/evaluations/[room] so a client whose
+// grace window expired can still recover the result later. Stored as one JSON file
+// per room under DATA_DIR.
+
+import { promises as fs } from 'fs'
+import path from 'path'
+
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), '.data')
+
+const EVALUATIONS_DIR = path.join(DATA_DIR, 'evaluations')
+
+// Room names are used as file names, so only allow the characters we generate
+export const ROOM_NAME_PATTERN = /^[A-Za-z0-9_-]{1,128}$/
+
+export interface StoredEvaluation {
+  room: string
+  evaluation: unknown
+  stored_at: string
+}
+
+function evaluationPath(room: string): string {
+  if (!ROOM_NAME_PATTERN.test(room)) {
+    throw new Error(`Invalid room name: ${room}`)
+  }
+  return path.join(EVALUATIONS_DIR, `${room}.json`)
+}
+
+export async function saveEvaluation(room: string, evaluation: unknown): Promise<StoredEvaluation> {
+  const record: StoredEvaluation = { room, evaluation, stored_at: new Date().toISOString() }
+  await fs.mkdir(EVALUATIONS_DIR, { recursive: true })
+  await fs.writeFile(evaluationPath(room), JSON.stringify(record), 'utf8')
+  return record
+}
+
+export async function loadEvaluation(room: string): Promise<StoredEvaluation | null> {
+  try {
+    const text = await fs.readFile(evaluationPath(room), 'utf8')
+    return JSON.parse(text) as StoredEvaluation
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw err
+  }
+}
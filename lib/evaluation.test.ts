@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+import { normalizeEvaluation } from './evaluation'
+
+const warningCodes = (raw: unknown) =>
+  normalizeEvaluation(raw).warnings.map(warning => `${warning.field}:${warning.code}`)
+
+describe('normalizeEvaluation', () => {
+  it('converts a current payload into the canonical model without warnings', () => {
+    const { evaluation, warnings } = normalizeEvaluation({
+      overall_score: 7.5,
+      scenario_type: 'cold_call',
+      core_metrics: {
+        rapport_building: { score: 8, feedback: 'Warm opener', label: 'Rapport', talk_ratio: 0.4 },
+      },
+      top_wins: [{ title: 'Clear agenda', citation: 'Let me walk you through...' }],
+      top_improvements: [{ title: 'Pause more', what_you_said: 'So anyway', suggested_alternative: 'What matters most?' }],
+      training_recommendations: [{ course: 'Discovery', topic: 'Open questions', url: 'https://example.com/q' }],
+      summary: { strengths: 'Confident tone' },
+    })
+
+    expect(warnings).toEqual([])
+    expect(evaluation).toEqual({
+      overall_score: 7.5,
+      scenario_type: 'cold_call',
+      core_metrics: [{
+        key: 'rapport_building',
+        label: 'Rapport',
+        score: 8,
+        feedback: 'Warm opener',
+        details: [{ label: 'Talk Ratio', value: '0.4' }],
+      }],
+      advanced_metrics: [],
+      top_wins: [{ title: 'Clear agenda', description: undefined, citation: 'Let me walk you through...' }],
+      top_improvements: [{
+        title: 'Pause more',
+        description: undefined,
+        what_you_said: 'So anyway',
+        suggested_alternative: 'What matters most?',
+        impact: undefined,
+      }],
+      training_recommendations: [{
+        course: 'Discovery',
+        module: '',
+        topic: 'Open questions',
+        url: 'https://example.com/q',
+        section_note: '',
+        reason: '',
+      }],
+      summary: { strengths: 'Confident tone', growth_areas: undefined, next_practice_focus: undefined },
+      error: null,
+    })
+  })
+
+  it('rejects payloads that are not objects', () => {
+    const { evaluation, warnings } = normalizeEvaluation(['not', 'an', 'object'])
+    expect(evaluation.overall_score).toBeNull()
+    expect(warnings).toEqual([{ field: '$', code: 'invalid_type', message: 'Evaluation payload must be an object' }])
+  })
+
+  it('clamps out-of-range scores and parses numeric strings', () => {
+    const { evaluation, warnings } = normalizeEvaluation({ overall_score: 14, core_metrics: { pace: '6' } })
+    expect(evaluation.overall_score).toBe(10)
+    expect(evaluation.core_metrics[0].score).toBe(6)
+    expect(warnings).toEqual([expect.objectContaining({ field: 'overall_score', code: 'out_of_range' })])
+  })
+
+  it('maps legacy shapes and flags them', () => {
+    const { evaluation } = normalizeEvaluation({
+      overall_score: 6,
+      scores: { rapport_building: 7, objection_handling: 5, tone_confidence: 6 },
+      top_wins: ['Good opener'],
+      training_links: ['https://example.com/course', 'Objection handling basics'],
+      summary: 'Solid call overall',
+    })
+
+    expect(evaluation.core_metrics.map(metric => [metric.label, metric.score])).toEqual([
+      ['Rapport Building', 7],
+      ['Objection Handling', 5],
+      ['Tone & Confidence', 6],
+    ])
+    expect(evaluation.top_wins).toEqual([{ title: 'Good opener' }])
+    expect(evaluation.training_recommendations.map(rec => [rec.topic, rec.url])).toEqual([
+      ['https://example.com/course', 'https://example.com/course'],
+      ['Objection handling basics', ''],
+    ])
+    expect(evaluation.summary).toEqual({ text: 'Solid call overall' })
+    expect(warningCodes({ scores: { pace: 5 }, top_wins: ['x'], training_links: [], summary: 'y' })).toEqual([
+      'overall_score:missing',
+      'scores:legacy_shape',
+      'top_wins[0]:legacy_shape',
+      'training_links:legacy_shape',
+      'summary:legacy_shape',
+    ])
+  })
+
+  it('prefers core_metrics over legacy scores', () => {
+    const { evaluation } = normalizeEvaluation({ overall_score: 5, core_metrics: { pace: 4 }, scores: { rapport_building: 9 } })
+    expect(evaluation.core_metrics.map(metric => metric.key)).toEqual(['pace'])
+  })
+
+  it('keeps the error marker without warning about the missing score', () => {
+    const { evaluation, warnings } = normalizeEvaluation({ error: 'no_transcript' })
+    expect(evaluation.error).toBe('no_transcript')
+    expect(warnings).toEqual([])
+  })
+
+  it('skips invalid list entries and reports their paths', () => {
+    const { evaluation } = normalizeEvaluation({ overall_score: 5, top_improvements: [{ title: 'Slow down' }, { description: 'no title' }, 3] })
+    expect(evaluation.top_improvements.map(item => item.title)).toEqual(['Slow down'])
+    expect(warningCodes({ overall_score: 5, top_improvements: [{ description: 'no title' }], core_metrics: 'fast' })).toEqual([
+      'core_metrics:invalid_type',
+      'top_improvements[0]:invalid_type',
+    ])
+  })
+})
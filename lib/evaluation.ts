@@ -0,0 +1,308 @@
+// Evaluation payloads
+// `EvaluationResult` describes what the agent sends in `evaluation_ready`, including
+// every legacy shape it has used. `normalizeEvaluation` validates that payload and
+// converts it into the canonical `Evaluation` model, which is the only shape the
+// summary card and exports render from.
+
+export interface TrainingRecommendation {
+  course: string
+  module: string
+  topic: string
+  url: string
+  section_note: string
+  reason: string
+}
+
+export interface TopWin {
+  title: string
+  description?: string
+  citation?: string
+}
+
+export interface TopImprovement {
+  title: string
+  description?: string
+  what_you_said?: string
+  suggested_alternative?: string
+  impact?: string
+}
+
+export interface SummaryObject {
+  strengths?: string
+  growth_areas?: string
+  next_practice_focus?: string
+}
+
+// Raw payload as sent by the agent
+export interface EvaluationResult {
+  overall_score?: number
+  scores?: {
+    rapport_building: number
+    objection_handling: number
+    tone_confidence: number
+  }
+  core_metrics?: Record<string, any>
+  advanced_metrics?: Record<string, any>
+  top_wins?: (string | TopWin)[]  // Support both string and object formats
+  top_improvements?: (string | TopImprovement)[]  // Support both string and object formats
+  training_links?: string[]  // Legacy support
+  training_recommendations?: TrainingRecommendation[]  // New format with URLs
+  summary?: string | SummaryObject  // Support both string and object formats
+  error?: string
+  scenario_type?: string
+}
+
+// Canonical model
+export interface EvaluationMetric {
+  key: string
+  label: string
+  score: number | null
+  feedback: string | null
+  details: { label: string; value: string }[]  // Extra scalar fields the UI has no dedicated slot for
+}
+
+export interface EvaluationSummary extends SummaryObject {
+  text?: string  // Legacy plain-text summary
+}
+
+export interface Evaluation {
+  overall_score: number | null
+  scenario_type: string | null
+  core_metrics: EvaluationMetric[]
+  advanced_metrics: EvaluationMetric[]
+  top_wins: TopWin[]
+  top_improvements: TopImprovement[]
+  training_recommendations: TrainingRecommendation[]
+  summary: EvaluationSummary | null
+  error: string | null
+}
+
+export type EvaluationWarningCode = 'missing' | 'invalid_type' | 'out_of_range' | 'legacy_shape'
+
+export interface EvaluationWarning {
+  field: string
+  code: EvaluationWarningCode
+  message: string
+}
+
+export interface NormalizedEvaluation {
+  evaluation: Evaluation
+  warnings: EvaluationWarning[]
+}
+
+export const MAX_SCORE = 10
+
+export function formatMetricLabel(key: string): string {
+  return key
+    .split('_')
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ')
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value : undefined
+}
+
+export function normalizeEvaluation(raw: unknown): NormalizedEvaluation {
+  const warnings: EvaluationWarning[] = []
+  const warn = (field: string, code: EvaluationWarningCode, message: string) => {
+    warnings.push({ field, code, message })
+  }
+
+  const evaluation: Evaluation = {
+    overall_score: null,
+    scenario_type: null,
+    core_metrics: [],
+    advanced_metrics: [],
+    top_wins: [],
+    top_improvements: [],
+    training_recommendations: [],
+    summary: null,
+    error: null,
+  }
+
+  if (!isRecord(raw)) {
+    warn('$', 'invalid_type', 'Evaluation payload must be an object')
+    return { evaluation, warnings }
+  }
+
+  const readScore = (field: string, value: unknown): number | null => {
+    if (value === undefined || value === null) return null
+    const score = typeof value === 'string' ? Number(value) : value
+    if (typeof score !== 'number' || Number.isNaN(score)) {
+      warn(field, 'invalid_type', `${field} must be a number`)
+      return null
+    }
+    if (score < 0 || score > MAX_SCORE) {
+      warn(field, 'out_of_range', `${field} must be between 0 and ${MAX_SCORE}`)
+      return Math.min(Math.max(score, 0), MAX_SCORE)
+    }
+    return score
+  }
+
+  const readMetrics = (field: string, value: unknown): EvaluationMetric[] => {
+    if (value === undefined) return []
+    if (!isRecord(value)) {
+      warn(field, 'invalid_type', `${field} must be an object keyed by metric name`)
+      return []
+    }
+    return Object.entries(value).map(([key, metric]) => {
+      const path = `${field}.${key}`
+      // Metrics can be a bare score or { score, feedback }
+      if (!isRecord(metric)) {
+        return { key, label: formatMetricLabel(key), score: readScore(path, metric), feedback: null, details: [] }
+      }
+      const feedback = optionalString(metric.feedback) ?? null
+      if (feedback === null) warn(`${path}.feedback`, 'missing', `${path} has no feedback`)
+      if (metric.score === undefined) warn(`${path}.score`, 'missing', `${path} has no score`)
+      return {
+        key,
+        label: optionalString(metric.label) ?? formatMetricLabel(key),
+        score: readScore(`${path}.score`, metric.score),
+        feedback,
+        details: Object.entries(metric)
+          .filter(([name, detail]) => !['score', 'feedback', 'label'].includes(name) && ['string', 'number', 'boolean'].includes(typeof detail))
+          .map(([name, detail]) => ({ label: formatMetricLabel(name), value: String(detail) })),
+      }
+    })
+  }
+
+  // Error marker (e.g. no_transcript) - the rest of the payload is usually empty
+  if (raw.error !== undefined) {
+    if (typeof raw.error === 'string') evaluation.error = raw.error
+    else warn('error', 'invalid_type', 'error must be a string')
+  }
+
+  evaluation.overall_score = readScore('overall_score', raw.overall_score)
+  if (raw.overall_score === undefined && !evaluation.error) {
+    warn('overall_score', 'missing', 'overall_score is missing')
+  }
+
+  if (raw.scenario_type !== undefined) {
+    if (typeof raw.scenario_type === 'string') evaluation.scenario_type = raw.scenario_type
+    else warn('scenario_type', 'invalid_type', 'scenario_type must be a string')
+  }
+
+  evaluation.core_metrics = readMetrics('core_metrics', raw.core_metrics)
+  evaluation.advanced_metrics = readMetrics('advanced_metrics', raw.advanced_metrics)
+
+  // Legacy fixed scores become core metrics when the agent did not send core_metrics
+  if (raw.scores !== undefined) {
+    if (!isRecord(raw.scores)) {
+      warn('scores', 'invalid_type', 'scores must be an object')
+    } else if (evaluation.core_metrics.length === 0) {
+      warn('scores', 'legacy_shape', 'scores is deprecated, use core_metrics')
+      evaluation.core_metrics = readMetrics('scores', raw.scores)
+        .map(metric => metric.key === 'tone_confidence' ? { ...metric, label: 'Tone & Confidence' } : metric)
+    }
+  }
+
+  // Wins and improvements: legacy strings become titles
+  const readList = <T extends { title: string }>(field: string, value: unknown, pick: (item: Record<string, any>) => Omit<T, 'title'>): T[] => {
+    if (value === undefined) return []
+    if (!Array.isArray(value)) {
+      warn(field, 'invalid_type', `${field} must be an array`)
+      return []
+    }
+    const items: T[] = []
+    value.forEach((item, idx) => {
+      const path = `${field}[${idx}]`
+      if (typeof item === 'string') {
+        warn(path, 'legacy_shape', `${path} is a plain string`)
+        if (item.trim()) items.push({ title: item } as T)
+        return
+      }
+      if (!isRecord(item) || !optionalString(item.title)) {
+        warn(path, 'invalid_type', `${path} must be a string or an object with a title`)
+        return
+      }
+      items.push({ title: item.title, ...pick(item) } as T)
+    })
+    return items
+  }
+
+  evaluation.top_wins = readList<TopWin>('top_wins', raw.top_wins, item => ({
+    description: optionalString(item.description),
+    citation: optionalString(item.citation),
+  }))
+
+  evaluation.top_improvements = readList<TopImprovement>('top_improvements', raw.top_improvements, item => ({
+    description: optionalString(item.description),
+    what_you_said: optionalString(item.what_you_said),
+    suggested_alternative: optionalString(item.suggested_alternative),
+    impact: optionalString(item.impact),
+  }))
+
+  // Training: prefer structured recommendations, fall back to legacy links
+  if (raw.training_recommendations !== undefined) {
+    if (!Array.isArray(raw.training_recommendations)) {
+      warn('training_recommendations', 'invalid_type', 'training_recommendations must be an array')
+    } else {
+      raw.training_recommendations.forEach((rec: unknown, idx: number) => {
+        const path = `training_recommendations[${idx}]`
+        if (!isRecord(rec) || !optionalString(rec.topic)) {
+          warn(path, 'invalid_type', `${path} must be an object with a topic`)
+          return
+        }
+        if (!optionalString(rec.url)) warn(`${path}.url`, 'missing', `${path} has no url`)
+        evaluation.training_recommendations.push({
+          course: optionalString(rec.course) ?? '',
+          module: optionalString(rec.module) ?? '',
+          topic: rec.topic,
+          url: optionalString(rec.url) ?? '',
+          section_note: optionalString(rec.section_note) ?? '',
+          reason: optionalString(rec.reason) ?? '',
+        })
+      })
+    }
+  }
+
+  if (evaluation.training_recommendations.length === 0 && raw.training_links !== undefined) {
+    if (!Array.isArray(raw.training_links)) {
+      warn('training_links', 'invalid_type', 'training_links must be an array')
+    } else {
+      warn('training_links', 'legacy_shape', 'training_links is deprecated, use training_recommendations')
+      raw.training_links.forEach((link: unknown, idx: number) => {
+        if (!optionalString(link)) {
+          warn(`training_links[${idx}]`, 'invalid_type', `training_links[${idx}] must be a string`)
+          return
+        }
+        const text = link as string
+        evaluation.training_recommendations.push({
+          course: '',
+          module: '',
+          topic: text,
+          url: /^https?:\/\//.test(text) ? text : '',
+          section_note: '',
+          reason: '',
+        })
+      })
+    }
+  }
+
+  // Summary: legacy plain string or structured object
+  if (typeof raw.summary === 'string') {
+    warn('summary', 'legacy_shape', 'summary is a plain string')
+    if (raw.summary.trim()) evaluation.summary = { text: raw.summary }
+  } else if (isRecord(raw.summary)) {
+    const summary: EvaluationSummary = {
+      strengths: optionalString(raw.summary.strengths),
+      growth_areas: optionalString(raw.summary.growth_areas),
+      next_practice_focus: optionalString(raw.summary.next_practice_focus),
+    }
+    if (summary.strengths || summary.growth_areas || summary.next_practice_focus) {
+      evaluation.summary = summary
+    } else {
+      warn('summary', 'missing', 'summary object has no content')
+    }
+  } else if (raw.summary !== undefined) {
+    warn('summary', 'invalid_type', 'summary must be a string or an object')
+  }
+
+  return { evaluation, warnings }
+}
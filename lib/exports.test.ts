@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest'
+import { csvCell } from './exports'
+
+describe('csvCell', () => {
+  it('leaves plain values and numbers as they are', () => {
+    expect(csvCell('Great call')).toBe('Great call')
+    expect(csvCell(-3)).toBe('-3')
+    expect(csvCell(null)).toBe('')
+  })
+
+  it('quotes values with quotes, commas or line breaks', () => {
+    expect(csvCell('Said "hi", then left')).toBe('"Said ""hi"", then left"')
+    expect(csvCell('line one\nline two')).toBe('"line one\nline two"')
+    expect(csvCell('line one\rline two')).toBe('"line one\rline two"')
+  })
+
+  it.each(['=HYPERLINK("http://x")', '+1', '-1+2', '@SUM(A1)', '\tindented'])('neutralises formula-like text %j', value => {
+    const cell = csvCell(value)
+    expect(cell.replace(/^"/, '').startsWith("'")).toBe(true)
+  })
+})
@@ -0,0 +1,186 @@
+// Text exports of an evaluation (JSON, Markdown, CSV)
+// All formats are built from the same normalized `Evaluation` plus session metadata;
+// JSON additionally carries the raw agent payload for debugging.
+
+import { Evaluation, EvaluationMetric, MAX_SCORE } from './evaluation'
+import { SessionMetadata, exportFileBaseName, formatDuration, formatSessionDate } from './session'
+import { PercentileSummary } from './stats'
+
+export type ExportFormat = 'json' | 'markdown' | 'csv'
+
+function sessionFields(session: SessionMetadata) {
+  return {
+    room: session.roomName,
+    started_at: session.startedAt !== null ? new Date(session.startedAt).toISOString() : null,
+    duration_seconds: session.durationMs !== null ? Math.round(session.durationMs / 1000) : null,
+    scenario: session.scenario?.id ?? null,
+    persona: session.scenario?.persona.id ?? null,
+    difficulty: session.scenario?.difficulty ?? null,
+    audio_settings: session.audioSettings ?? null,
+    metrics: session.metrics ?? null,
+  }
+}
+
+export function toJSONExport(evaluation: Evaluation, session: SessionMetadata, raw?: unknown): string {
+  return JSON.stringify({
+    session: sessionFields(session),
+    evaluation,
+    raw: raw ?? null,
+  }, null, 2)
+}
+
+function metricsTable(metrics: EvaluationMetric[]): string[] {
+  const escape = (value: string) => value.replace(/\|/g, '\\|').replace(/\n/g, ' ')
+  return [
+    '| Metric | Score | Feedback |',
+    '| --- | --- | --- |',
+    ...metrics.map(m => `| ${escape(m.label)} | ${m.score ?? '–'}/${MAX_SCORE} | ${escape(m.feedback ?? '')} |`),
+  ]
+}
+
+// Mirrors the sections of the call summary card
+export function toMarkdownReport(evaluation: Evaluation, session: SessionMetadata): string {
+  const lines: string[] = ['# Roleplay Evaluation Report', '']
+
+  const scenario = session.scenario
+    ? `${session.scenario.label} · ${session.scenario.persona.label} · ${session.scenario.difficulty}`
+    : evaluation.scenario_type || 'N/A'
+  lines.push(`- **Scenario:** ${scenario}`)
+  if (session.scenario && evaluation.scenario_type) lines.push(`- **Evaluated as:** ${evaluation.scenario_type}`)
+  lines.push(`- **Date:** ${formatSessionDate(session.startedAt)}`)
+  lines.push(`- **Call duration:** ${formatDuration(session.durationMs)}`)
+  lines.push(`- **Overall score:** ${evaluation.overall_score ?? 'N/A'}/${MAX_SCORE}`)
+  if (evaluation.error) lines.push(`- **Error:** ${evaluation.error}`)
+  lines.push('')
+
+  const metrics = session.metrics
+  if (metrics && (metrics.latency || metrics.rttMs)) {
+    const row = (label: string, summary: PercentileSummary | null, unit: string) =>
+      `| ${label} | ${summary ? `${Math.round(summary.p50)} ${unit}` : '–'} | ${summary ? `${Math.round(summary.p95)} ${unit}` : '–'} |`
+    lines.push('## Call Quality', '', '| Metric | p50 | p95 |', '| --- | --- | --- |')
+    lines.push(row(`Turn latency (${metrics.latency?.count ?? 0} turns)`, metrics.latency, 'ms'))
+    lines.push(row('Round trip', metrics.rttMs, 'ms'))
+    lines.push(row('Jitter', metrics.jitterMs, 'ms'))
+    lines.push(row('Packet loss', metrics.packetLossPct, '%'))
+    lines.push('')
+  }
+
+  if (evaluation.core_metrics.length > 0) {
+    lines.push('## Core Metrics', '', ...metricsTable(evaluation.core_metrics), '')
+  }
+  if (evaluation.advanced_metrics.length > 0) {
+    lines.push('## Advanced Metrics', '', ...metricsTable(evaluation.advanced_metrics), '')
+  }
+
+  if (evaluation.top_wins.length > 0) {
+    lines.push('## ✅ What You Did Well', '')
+    evaluation.top_wins.forEach(win => {
+      lines.push(`- **${win.title}**`)
+      if (win.description) lines.push(`  ${win.description}`)
+      if (win.citation) lines.push(`  > ${win.citation}`)
+    })
+    lines.push('')
+  }
+
+  if (evaluation.top_improvements.length > 0) {
+    lines.push('## 🎯 Focus Areas for Next Call', '')
+    evaluation.top_improvements.forEach(imp => {
+      lines.push(`- **${imp.title}**`)
+      if (imp.description) lines.push(`  ${imp.description}`)
+      if (imp.what_you_said) lines.push(`  - *You said:* ${imp.what_you_said}`)
+      if (imp.suggested_alternative) lines.push(`  - *Try instead:* ${imp.suggested_alternative}`)
+      if (imp.impact) lines.push(`  - *Impact:* ${imp.impact}`)
+    })
+    lines.push('')
+  }
+
+  if (evaluation.training_recommendations.length > 0) {
+    lines.push('## 📚 Recommended Training', '')
+    evaluation.training_recommendations.forEach(rec => {
+      const title = [rec.course, rec.module, rec.topic].filter(Boolean).join(' - ')
+      lines.push(rec.url ? `- [${title}](${rec.url})` : `- ${title}`)
+      if (rec.reason) lines.push(`  *Why:* ${rec.reason}`)
+      if (rec.section_note) lines.push(`  💡 ${rec.section_note}`)
+    })
+    lines.push('')
+  }
+
+  const summary = evaluation.summary
+  if (summary) {
+    lines.push('## Summary', '')
+    if (summary.text) lines.push(summary.text, '')
+    if (summary.strengths) lines.push(`**Strengths:** ${summary.strengths}`, '')
+    if (summary.growth_areas) lines.push(`**Growth Areas:** ${summary.growth_areas}`, '')
+    if (summary.next_practice_focus) lines.push(`**Next Practice Focus:** ${summary.next_practice_focus}`, '')
+  }
+
+  return lines.join('\n').trimEnd() + '\n'
+}
+
+// Free text (e.g. trainee comments) starting with a formula character is prefixed with `'`
+// so spreadsheets show it instead of evaluating it; numbers like -3 are left alone
+export function csvCell(value: string | number | null): string {
+  if (value === null) return ''
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const roundOrNull = (value: number | undefined) => value === undefined ? null : Math.round(value)
+
+// Header plus one row of per-metric scores, so rows from several sessions can be pasted together
+export function toCSVRow(evaluation: Evaluation, session: SessionMetadata): string {
+  const fields = sessionFields(session)
+  const columns: [string, string | number | null][] = [
+    ['room', fields.room],
+    ['started_at', fields.started_at],
+    ['duration_seconds', fields.duration_seconds],
+    ['scenario', fields.scenario ?? evaluation.scenario_type],
+    ['persona', fields.persona],
+    ['difficulty', fields.difficulty],
+    ['audio.echo_cancellation', session.audioSettings ? String(session.audioSettings.echoCancellation) : null],
+    ['audio.noise_suppression', session.audioSettings ? String(session.audioSettings.noiseSuppression) : null],
+    ['audio.auto_gain', session.audioSettings ? String(session.audioSettings.autoGainControl) : null],
+    ['audio.max_bitrate', session.audioSettings?.maxBitrate ?? null],
+    ['audio.dtx', session.audioSettings ? String(session.audioSettings.dtx) : null],
+    ['audio.red', session.audioSettings ? String(session.audioSettings.red) : null],
+    ['turns_measured', session.metrics?.latency?.count ?? null],
+    ['latency_p50_ms', roundOrNull(session.metrics?.latency?.p50)],
+    ['latency_p95_ms', roundOrNull(session.metrics?.latency?.p95)],
+    ['rtt_p50_ms', roundOrNull(session.metrics?.rttMs?.p50)],
+    ['jitter_p50_ms', roundOrNull(session.metrics?.jitterMs?.p50)],
+    ['packet_loss_p95_pct', session.metrics?.packetLossPct ? Number(session.metrics.packetLossPct.p95.toFixed(2)) : null],
+    ['overall_score', evaluation.overall_score],
+    ...evaluation.core_metrics.map(m => [`core.${m.key}`, m.score] as [string, number | null]),
+    ...evaluation.advanced_metrics.map(m => [`advanced.${m.key}`, m.score] as [string, number | null]),
+  ]
+
+  return [
+    columns.map(([name]) => csvCell(name)).join(','),
+    columns.map(([, value]) => csvCell(value)).join(','),
+  ].join('\n') + '\n'
+}
+
+const FORMATS: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  json: { extension: 'json', mimeType: 'application/json' },
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  csv: { extension: 'csv', mimeType: 'text/csv' },
+}
+
+export function downloadEvaluationExport(format: ExportFormat, evaluation: Evaluation, session: SessionMetadata, raw?: unknown): void {
+  const content =
+    format === 'json' ? toJSONExport(evaluation, session, raw) :
+    format === 'markdown' ? toMarkdownReport(evaluation, session) :
+    toCSVRow(evaluation, session)
+
+  const { extension, mimeType } = FORMATS[format]
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` })
+  const url = URL.createObjectURL(blob)
+
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${exportFileBaseName(session, evaluation.scenario_type)}.${extension}`
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
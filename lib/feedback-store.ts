@@ -0,0 +1,61 @@
+// Server-side feedback store
+// Trainee feedback is appended to a JSON-lines file under DATA_DIR, one line per submission.
+// A room can be re-submitted; readers keep the latest entry per room.
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { DATA_DIR } from './evaluation-store'
+import { FeedbackInput } from './feedback'
+import { MintedRoom } from './room-registry'
+
+const FEEDBACK_PATH = path.join(DATA_DIR, 'feedback.jsonl')
+
+export interface StoredFeedback {
+  room: string
+  participant: string
+  scenario_id: string
+  realism: number
+  difficulty: number
+  audio_quality: number
+  comment: string
+  submitted_at: string
+}
+
+export async function saveFeedback(room: MintedRoom, feedback: FeedbackInput): Promise<StoredFeedback> {
+  const record: StoredFeedback = {
+    room: room.room,
+    participant: room.participant,
+    scenario_id: room.scenario_id,
+    realism: feedback.realism,
+    difficulty: feedback.difficulty,
+    audio_quality: feedback.audioQuality,
+    comment: feedback.comment,
+    submitted_at: new Date().toISOString(),
+  }
+  await fs.mkdir(DATA_DIR, { recursive: true })
+  await fs.appendFile(FEEDBACK_PATH, JSON.stringify(record) + '\n', 'utf8')
+  return record
+}
+
+// Newest first
+export async function loadFeedback(): Promise<StoredFeedback[]> {
+  let text: string
+  try {
+    text = await fs.readFile(FEEDBACK_PATH, 'utf8')
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw err
+  }
+
+  const byRoom = new Map<string, StoredFeedback>()
+  text.split('\n').forEach(line => {
+    if (!line.trim()) return
+    try {
+      const record = JSON.parse(line) as StoredFeedback
+      byRoom.set(record.room, record)
+    } catch {
+      console.warn('[FEEDBACK_STORE] Skipping malformed line')
+    }
+  })
+  return Array.from(byRoom.values()).sort((a, b) => b.submitted_at.localeCompare(a.submitted_at))
+}
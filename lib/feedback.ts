@@ -0,0 +1,51 @@
+// Post-call trainee feedback (shared by the feedback form and /api/feedback)
+
+import { RATING_MAX, RATING_MIN } from './voice-ratings'
+
+export type FeedbackAspect = 'realism' | 'difficulty' | 'audioQuality'
+
+export const FEEDBACK_ASPECTS: { key: FeedbackAspect; label: string; hint: string }[] = [
+  { key: 'realism', label: 'Realism', hint: 'Did the roleplay feel like a real conversation?' },
+  { key: 'difficulty', label: 'Difficulty', hint: `${RATING_MIN} = too easy, ${RATING_MAX} = too hard` },
+  { key: 'audioQuality', label: 'Audio quality', hint: 'Could you hear and be heard clearly?' },
+]
+
+export const FEEDBACK_COMMENT_MAX_LENGTH = 2000
+
+export interface FeedbackInput {
+  roomName: string
+  realism: number
+  difficulty: number
+  audioQuality: number
+  comment: string
+}
+
+export function validateFeedback(body: unknown): { feedback: FeedbackInput } | { error: string } {
+  if (!body || typeof body !== 'object') return { error: 'Feedback body must be an object' }
+  const input = body as Record<string, unknown>
+
+  if (typeof input.roomName !== 'string' || !input.roomName) return { error: 'roomName is required' }
+
+  for (const { key } of FEEDBACK_ASPECTS) {
+    const value = input[key]
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < RATING_MIN || value > RATING_MAX) {
+      return { error: `${key} must be a whole number from ${RATING_MIN} to ${RATING_MAX}` }
+    }
+  }
+
+  const comment = input.comment ?? ''
+  if (typeof comment !== 'string') return { error: 'comment must be a string' }
+  if (comment.length > FEEDBACK_COMMENT_MAX_LENGTH) {
+    return { error: `comment must be at most ${FEEDBACK_COMMENT_MAX_LENGTH} characters` }
+  }
+
+  return {
+    feedback: {
+      roomName: input.roomName,
+      realism: input.realism as number,
+      difficulty: input.difficulty as number,
+      audioQuality: input.audioQuality as number,
+      comment: comment.trim(),
+    },
+  }
+}
@@ -0,0 +1,263 @@
+// Evaluation PDF report
+// Layout helpers wrap every text block to the content width and start a new page
+// whenever the next block would run into the footer. Headers and footers are
+// stamped on every page once the body is complete, so the page count is known.
+
+import jsPDF from 'jspdf'
+import { Evaluation, EvaluationMetric, MAX_SCORE } from './evaluation'
+import { SessionMetadata, exportFileBaseName, formatDuration, formatSessionDate } from './session'
+import { PercentileSummary } from './stats'
+
+type RGB = [number, number, number]
+
+const BRAND_GOLD: RGB = [184, 149, 106]  // form-gold-muted
+const TEXT_DARK: RGB = [51, 51, 51]      // form-text-dark
+const TEXT_GRAY: RGB = [153, 153, 153]   // form-text-gray
+const BAR_TRACK: RGB = [245, 245, 245]   // form-off-white
+
+const MARGIN = 20
+const HEADER_HEIGHT = 22
+const FOOTER_HEIGHT = 18
+const LINE_HEIGHT_FACTOR = 0.45  // mm per pt of font size
+
+interface TextOptions {
+  size?: number
+  style?: 'normal' | 'bold' | 'italic'
+  color?: RGB
+  indent?: number
+  gap?: number  // space after the block
+}
+
+function createLayout(doc: jsPDF) {
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const pageHeight = doc.internal.pageSize.getHeight()
+  const contentWidth = pageWidth - MARGIN * 2
+  const top = HEADER_HEIGHT + 8
+  const bottom = pageHeight - FOOTER_HEIGHT - 4
+  let y = top
+
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom) {
+      doc.addPage()
+      y = top
+    }
+  }
+
+  const text = (value: string, options: TextOptions = {}) => {
+    const { size = 10, style = 'normal', color = TEXT_DARK, indent = 0, gap = 2 } = options
+    doc.setFont('helvetica', style)
+    doc.setFontSize(size)
+    doc.setTextColor(...color)
+
+    const lineHeight = size * LINE_HEIGHT_FACTOR
+    const lines: string[] = doc.splitTextToSize(value, contentWidth - indent)
+    lines.forEach(line => {
+      ensureSpace(lineHeight)
+      doc.text(line, MARGIN + indent, y + lineHeight * 0.8)
+      y += lineHeight
+    })
+    y += gap
+  }
+
+  const heading = (value: string) => {
+    ensureSpace(16)  // keep headings with at least one following line
+    y += 3
+    text(value, { size: 13, style: 'bold', color: BRAND_GOLD, gap: 1 })
+    doc.setDrawColor(...BRAND_GOLD)
+    doc.setLineWidth(0.3)
+    doc.line(MARGIN, y, MARGIN + contentWidth, y)
+    y += 4
+  }
+
+  const link = (label: string, url: string, indent = 0) => {
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(9)
+    doc.setTextColor(...BRAND_GOLD)
+    const lineHeight = 9 * LINE_HEIGHT_FACTOR
+    const lines: string[] = doc.splitTextToSize(label, contentWidth - indent)
+    lines.forEach(line => {
+      ensureSpace(lineHeight)
+      doc.textWithLink(line, MARGIN + indent, y + lineHeight * 0.8, { url })
+      y += lineHeight
+    })
+    y += 2
+  }
+
+  const spacer = (height: number) => {
+    y += height
+  }
+
+  const scoreChart = (metrics: EvaluationMetric[]) => {
+    const scored = metrics.filter(m => m.score !== null)
+    const labelWidth = 60
+    const barWidth = contentWidth - labelWidth - 15
+    const rowHeight = 7
+
+    scored.forEach(metric => {
+      ensureSpace(rowHeight)
+      doc.setFont('helvetica', 'normal')
+      doc.setFontSize(9)
+      doc.setTextColor(...TEXT_DARK)
+      const label: string = doc.splitTextToSize(metric.label, labelWidth - 2)[0]
+      doc.text(label, MARGIN, y + 4)
+
+      const barX = MARGIN + labelWidth
+      doc.setFillColor(...BAR_TRACK)
+      doc.roundedRect(barX, y + 1, barWidth, 4, 1, 1, 'F')
+      doc.setFillColor(...BRAND_GOLD)
+      doc.roundedRect(barX, y + 1, Math.max(1, (metric.score! / MAX_SCORE) * barWidth), 4, 1, 1, 'F')
+
+      doc.setFont('helvetica', 'bold')
+      doc.text(`${metric.score}/${MAX_SCORE}`, barX + barWidth + 2, y + 4)
+      y += rowHeight
+    })
+    y += 2
+  }
+
+  return { text, heading, link, spacer, scoreChart, contentWidth, pageWidth, pageHeight }
+}
+
+function stampHeadersAndFooters(doc: jsPDF, session: SessionMetadata) {
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const pageHeight = doc.internal.pageSize.getHeight()
+  const pageCount = doc.getNumberOfPages()
+
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page)
+
+    // Header: brand bar
+    doc.setFillColor(...BRAND_GOLD)
+    doc.rect(0, 0, pageWidth, HEADER_HEIGHT - 6, 'F')
+    doc.setTextColor(255, 255, 255)
+    doc.setFont('helvetica', 'bold')
+    doc.setFontSize(14)
+    doc.text('Empower AI', MARGIN, 10)
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(9)
+    doc.text('Real Estate Coach', pageWidth - MARGIN, 10, { align: 'right' })
+
+    // Footer
+    doc.setDrawColor(...TEXT_GRAY)
+    doc.setLineWidth(0.2)
+    doc.line(MARGIN, pageHeight - FOOTER_HEIGHT, pageWidth - MARGIN, pageHeight - FOOTER_HEIGHT)
+    doc.setTextColor(...TEXT_GRAY)
+    doc.setFontSize(8)
+    doc.text(`Roleplay Evaluation Report · ${formatSessionDate(session.startedAt)}`, MARGIN, pageHeight - FOOTER_HEIGHT + 6)
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - MARGIN, pageHeight - FOOTER_HEIGHT + 6, { align: 'right' })
+  }
+}
+
+export function generateEvaluationReport(evaluation: Evaluation, session: SessionMetadata): jsPDF {
+  const doc = new jsPDF('p', 'mm', 'letter')
+  const layout = createLayout(doc)
+
+  // Title + session details
+  layout.text('Roleplay Evaluation Report', { size: 18, style: 'bold', gap: 3 })
+  const scenario = session.scenario
+    ? `${session.scenario.label} · ${session.scenario.persona.label} · ${session.scenario.difficulty}`
+    : evaluation.scenario_type || 'N/A'
+  layout.text(`Scenario: ${scenario}`, { size: 10, color: TEXT_GRAY, gap: 0 })
+  if (session.scenario && evaluation.scenario_type) {
+    layout.text(`Evaluated as: ${evaluation.scenario_type}`, { size: 10, color: TEXT_GRAY, gap: 0 })
+  }
+  layout.text(`Date: ${formatSessionDate(session.startedAt)}`, { size: 10, color: TEXT_GRAY, gap: 0 })
+  layout.text(`Call duration: ${formatDuration(session.durationMs)}`, { size: 10, color: TEXT_GRAY, gap: 4 })
+
+  layout.text(`Overall Score: ${evaluation.overall_score ?? 'N/A'}/${MAX_SCORE}`, { size: 14, style: 'bold', color: BRAND_GOLD, gap: 2 })
+
+  if (evaluation.error) {
+    layout.text(`Error: ${evaluation.error}`, { color: [239, 68, 68] })
+  }
+
+  // Same rows as the Markdown export's Call Quality table
+  const callMetrics = session.metrics
+  if (callMetrics && (callMetrics.latency || callMetrics.rttMs)) {
+    layout.heading('Call Quality')
+    const rows: [string, PercentileSummary | null, string][] = [
+      [`Turn latency (${callMetrics.latency?.count ?? 0} turns)`, callMetrics.latency, 'ms'],
+      ['Round trip', callMetrics.rttMs, 'ms'],
+      ['Jitter', callMetrics.jitterMs, 'ms'],
+      ['Packet loss', callMetrics.packetLossPct, '%'],
+    ]
+    rows.forEach(([label, summary, unit]) => {
+      const value = summary ? `p50 ${Math.round(summary.p50)} ${unit} · p95 ${Math.round(summary.p95)} ${unit}` : '–'
+      layout.text(`${label}: ${value}`, { size: 9, gap: 0.5 })
+    })
+    layout.spacer(1.5)
+  }
+
+  // Metrics: chart first, then feedback per metric
+  const metricSections: [string, EvaluationMetric[]][] = [
+    ['Core Metrics', evaluation.core_metrics],
+    ['Advanced Metrics', evaluation.advanced_metrics],
+  ]
+  metricSections.forEach(([title, metrics]) => {
+    if (metrics.length === 0) return
+    layout.heading(title)
+    layout.scoreChart(metrics)
+    metrics.forEach(metric => {
+      if (!metric.feedback && metric.details.length === 0) return
+      layout.text(metric.label, { style: 'bold', gap: 0.5 })
+      if (metric.feedback) layout.text(metric.feedback, { size: 9, indent: 4 })
+      metric.details.forEach(detail => layout.text(`${detail.label}: ${detail.value}`, { size: 9, color: TEXT_GRAY, indent: 4 }))
+    })
+  })
+
+  if (evaluation.top_wins.length > 0) {
+    layout.heading('What You Did Well')
+    evaluation.top_wins.forEach(win => {
+      layout.text(`• ${win.title}`, { style: 'bold', gap: 0.5 })
+      if (win.description) layout.text(win.description, { size: 9, indent: 4, gap: 0.5 })
+      if (win.citation) layout.text(`"${win.citation}"`, { size: 9, style: 'italic', color: TEXT_GRAY, indent: 4 })
+      layout.spacer(1.5)
+    })
+  }
+
+  if (evaluation.top_improvements.length > 0) {
+    layout.heading('Focus Areas for Next Call')
+    evaluation.top_improvements.forEach(imp => {
+      layout.text(`• ${imp.title}`, { style: 'bold', gap: 0.5 })
+      if (imp.description) layout.text(imp.description, { size: 9, indent: 4, gap: 0.5 })
+      if (imp.what_you_said) layout.text(`You said: "${imp.what_you_said}"`, { size: 9, color: TEXT_GRAY, indent: 4, gap: 0.5 })
+      if (imp.suggested_alternative) layout.text(`Try instead: ${imp.suggested_alternative}`, { size: 9, color: BRAND_GOLD, indent: 4, gap: 0.5 })
+      if (imp.impact) layout.text(`Impact: ${imp.impact}`, { size: 9, indent: 4 })
+      layout.spacer(1.5)
+    })
+  }
+
+  if (evaluation.training_recommendations.length > 0) {
+    layout.heading('Recommended Training')
+    evaluation.training_recommendations.forEach(rec => {
+      const title = [rec.course, rec.module, rec.topic].filter(Boolean).join(' - ')
+      layout.text(title, { style: 'bold', gap: 0.5 })
+      if (rec.reason) layout.text(`Why: ${rec.reason}`, { size: 9, indent: 4, gap: 0.5 })
+      if (rec.section_note) layout.text(rec.section_note, { size: 9, color: TEXT_GRAY, indent: 4, gap: 0.5 })
+      if (rec.url) layout.link(rec.url, rec.url, 4)
+      layout.spacer(1.5)
+    })
+  }
+
+  const summary = evaluation.summary
+  if (summary) {
+    layout.heading('Summary')
+    if (summary.text) layout.text(summary.text)
+    const parts: [string, string | undefined][] = [
+      ['Strengths', summary.strengths],
+      ['Growth Areas', summary.growth_areas],
+      ['Next Practice Focus', summary.next_practice_focus],
+    ]
+    parts.forEach(([label, value]) => {
+      if (!value) return
+      layout.text(label, { style: 'bold', gap: 0.5 })
+      layout.text(value, { size: 9, indent: 4 })
+    })
+  }
+
+  stampHeadersAndFooters(doc, session)
+  return doc
+}
+
+export function downloadEvaluationReport(evaluation: Evaluation, session: SessionMetadata): void {
+  const doc = generateEvaluationReport(evaluation, session)
+  doc.save(`${exportFileBaseName(session, evaluation.scenario_type)}.pdf`)
+}
@@ -0,0 +1,37 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createRateLimiter, envLimit } from './rate-limit'
+
+const NOW = 1_700_000_000_000
+
+describe('createRateLimiter', () => {
+  it('allows up to the limit per key within a window', () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 60_000 })
+    expect(limiter.check('ip-1', NOW)).toEqual({ allowed: true, remaining: 1, retryAfterSeconds: 0 })
+    expect(limiter.check('ip-1', NOW + 1)).toEqual({ allowed: true, remaining: 0, retryAfterSeconds: 0 })
+    expect(limiter.check('ip-1', NOW + 30_000)).toEqual({ allowed: false, remaining: 0, retryAfterSeconds: 30 })
+    expect(limiter.check('ip-2', NOW + 30_000).allowed).toBe(true)
+  })
+
+  it('starts a fresh window once the old one has expired', () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 60_000 })
+    expect(limiter.check('ip-1', NOW).allowed).toBe(true)
+    expect(limiter.check('ip-1', NOW + 59_999).allowed).toBe(false)
+    expect(limiter.check('ip-1', NOW + 60_000)).toEqual({ allowed: true, remaining: 0, retryAfterSeconds: 0 })
+  })
+})
+
+describe('envLimit', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('reads positive integers and falls back otherwise', () => {
+    vi.stubEnv('TEST_LIMIT', '25')
+    expect(envLimit('TEST_LIMIT', 10)).toBe(25)
+    vi.stubEnv('TEST_LIMIT', '0')
+    expect(envLimit('TEST_LIMIT', 10)).toBe(10)
+    vi.stubEnv('TEST_LIMIT', '2.5')
+    expect(envLimit('TEST_LIMIT', 10)).toBe(10)
+    expect(envLimit('TEST_LIMIT_UNSET', 10)).toBe(10)
+  })
+})
@@ -0,0 +1,50 @@
+// In-memory fixed-window rate limiter
+// State lives in the server process, so limits are per instance and reset on redeploy.
+// That is enough to stop a single client from minting tokens in a loop.
+
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  retryAfterSeconds: number
+}
+
+export function createRateLimiter({ limit, windowMs }: { limit: number; windowMs: number }) {
+  const windows = new Map<string, { count: number; resetAt: number }>()
+
+  // Drop expired windows now and then so the map doesn't grow without bound
+  const prune = (now: number) => {
+    windows.forEach((window, key) => {
+      if (window.resetAt <= now) windows.delete(key)
+    })
+  }
+
+  return {
+    check(key: string, now = Date.now()): RateLimitResult {
+      if (windows.size > 10000) prune(now)
+
+      let window = windows.get(key)
+      if (!window || window.resetAt <= now) {
+        window = { count: 0, resetAt: now + windowMs }
+        windows.set(key, window)
+      }
+
+      window.count += 1
+      const allowed = window.count <= limit
+      return {
+        allowed,
+        remaining: Math.max(0, limit - window.count),
+        retryAfterSeconds: allowed ? 0 : Math.ceil((window.resetAt - now) / 1000),
+      }
+    },
+  }
+}
+
+export function envLimit(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isInteger(value) && value > 0 ? value : fallback
+}
+
+// Shared by token minting and agent redispatch: both spend LiveKit and agent time
+const TOKEN_RATE_LIMIT_WINDOW_MS = 60 * 1000
+export const tokenIpLimiter = createRateLimiter({ limit: envLimit('TOKEN_RATE_LIMIT_PER_IP', 20), windowMs: TOKEN_RATE_LIMIT_WINDOW_MS })
+export const tokenIdentityLimiter = createRateLimiter({ limit: envLimit('TOKEN_RATE_LIMIT_PER_IDENTITY', 10), windowMs: TOKEN_RATE_LIMIT_WINDOW_MS })
@@ -0,0 +1,82 @@
+// Server-side record of rooms minted by /api/voice-bot/token
+// Lets other routes (feedback, ratings) check that a room name really came from us
+// before tying data to it, and records which authenticated caller owns the room so
+// nobody else can mint a token for it. One JSON file per room under DATA_DIR.
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { NextRequest, NextResponse } from 'next/server'
+import { DATA_DIR, ROOM_NAME_PATTERN } from './evaluation-store'
+import { AuthIdentity, apiError, authenticate } from './auth'
+
+const ROOMS_DIR = path.join(DATA_DIR, 'rooms')
+
+// Client-chosen room names must look like the ones VoiceBotInterface generates
+export const ROOM_NAME_PREFIX = 'room-test-roleplay-'
+
+export interface MintedRoom {
+  room: string
+  participant: string
+  scenario_id: string
+  owner?: string  // Auth subject that first minted the room (absent in older records)
+  minted_at: string
+}
+
+export function isValidClientRoomName(room: unknown): room is string {
+  return typeof room === 'string' && room.startsWith(ROOM_NAME_PREFIX) && ROOM_NAME_PATTERN.test(room)
+}
+
+export type RoomAccess = 'new' | 'owner' | 'forbidden'
+
+export async function checkRoomAccess(room: string, subject: string): Promise<{ access: RoomAccess; record: MintedRoom | null }> {
+  const record = await loadMintedRoom(room)
+  if (!record) return { access: 'new', record }
+  return { access: !record.owner || record.owner === subject ? 'owner' : 'forbidden', record }
+}
+
+// For routes that read or write per-room data (evaluations, feedback, ratings): the caller must
+// be authenticated and own the room, the same rule token minting applies to rejoins
+export async function requireRoomOwner(
+  request: NextRequest,
+  room: string
+): Promise<{ identity: AuthIdentity; record: MintedRoom } | { response: NextResponse }> {
+  const auth = await authenticate(request)
+  if ('response' in auth) return auth
+
+  const { access, record } = await checkRoomAccess(room, auth.identity.subject)
+  if (access === 'new' || !record) {
+    return { response: apiError(404, 'not_found', 'Unknown room') }
+  }
+  if (access === 'forbidden') {
+    console.warn(`[ROOM_ACCESS_DENIED] room=${room} subject=${auth.identity.subject}`)
+    return { response: apiError(403, 'forbidden', 'This conversation belongs to someone else') }
+  }
+  return { identity: auth.identity, record }
+}
+
+function roomPath(room: string): string {
+  if (!ROOM_NAME_PATTERN.test(room)) {
+    throw new Error(`Invalid room name: ${room}`)
+  }
+  return path.join(ROOMS_DIR, `${room}.json`)
+}
+
+// Keeps the first record, so a rejoin token does not overwrite who started the room
+export async function recordMintedRoom(room: string, participant: string, scenarioId: string, owner: string): Promise<MintedRoom> {
+  const existing = await loadMintedRoom(room)
+  if (existing) return existing
+
+  const record: MintedRoom = { room, participant, scenario_id: scenarioId, owner, minted_at: new Date().toISOString() }
+  await fs.mkdir(ROOMS_DIR, { recursive: true })
+  await fs.writeFile(roomPath(room), JSON.stringify(record), 'utf8')
+  return record
+}
+
+export async function loadMintedRoom(room: string): Promise<MintedRoom | null> {
+  try {
+    return JSON.parse(await fs.readFile(roomPath(room), 'utf8')) as MintedRoom
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw err
+  }
+}
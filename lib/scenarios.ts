@@ -0,0 +1,124 @@
+// Roleplay scenario catalog
+// The token route validates every selection against this list before it is
+// embedded in the agent dispatch metadata, so the agent only ever sees known ids.
+
+export type ScenarioDifficulty = 'easy' | 'medium' | 'hard'
+
+export interface ScenarioPersona {
+  id: string
+  label: string
+  description: string
+}
+
+export interface Scenario {
+  id: string
+  label: string
+  description: string
+  personas: ScenarioPersona[]
+}
+
+export interface ScenarioSelection {
+  scenarioId: string
+  difficulty: ScenarioDifficulty
+  personaId: string
+}
+
+// Fully resolved selection as sent to the agent
+export interface ResolvedScenario {
+  id: string
+  label: string
+  description: string
+  difficulty: ScenarioDifficulty
+  persona: ScenarioPersona
+}
+
+export const DIFFICULTIES: { id: ScenarioDifficulty; label: string }[] = [
+  { id: 'easy', label: 'Easy' },
+  { id: 'medium', label: 'Medium' },
+  { id: 'hard', label: 'Hard' },
+]
+
+export const SCENARIOS: Scenario[] = [
+  {
+    id: 'expired_listing',
+    label: 'Expired Listing',
+    description: 'Call a homeowner whose listing just expired without selling.',
+    personas: [
+      { id: 'frustrated_seller', label: 'Frustrated Seller', description: 'Blames the last agent and is wary of another pitch.' },
+      { id: 'relocating_family', label: 'Relocating Family', description: 'Needs to move soon and is open to a new plan.' },
+      { id: 'skeptical_investor', label: 'Skeptical Investor', description: 'Numbers-driven and wants proof before committing.' },
+    ],
+  },
+  {
+    id: 'fsbo',
+    label: 'For Sale By Owner',
+    description: 'Convince an owner selling on their own to consider representation.',
+    personas: [
+      { id: 'diy_saver', label: 'DIY Saver', description: 'Wants to avoid paying commission at all costs.' },
+      { id: 'overwhelmed_owner', label: 'Overwhelmed Owner', description: 'Tired of showings and paperwork but proud of the effort.' },
+    ],
+  },
+  {
+    id: 'buyer_objection',
+    label: 'Buyer Objection',
+    description: 'Handle a buyer who is hesitating to make an offer.',
+    personas: [
+      { id: 'first_time_buyer', label: 'First-Time Buyer', description: 'Nervous about rates and the size of the commitment.' },
+      { id: 'wait_and_see', label: 'Wait-and-See Buyer', description: 'Convinced prices will drop if they hold off.' },
+    ],
+  },
+  {
+    id: 'price_reduction',
+    label: 'Price Reduction',
+    description: 'Ask a current listing client to reduce their asking price.',
+    personas: [
+      { id: 'attached_owner', label: 'Emotionally Attached Owner', description: 'Raised a family in the home and values it above market.' },
+      { id: 'numbers_owner', label: 'Numbers-First Owner', description: 'Will only move on price with clear comps.' },
+    ],
+  },
+]
+
+export const DEFAULT_SCENARIO_SELECTION: ScenarioSelection = {
+  scenarioId: SCENARIOS[0].id,
+  difficulty: 'medium',
+  personaId: SCENARIOS[0].personas[0].id,
+}
+
+export function findScenario(scenarioId: string): Scenario | undefined {
+  return SCENARIOS.find(s => s.id === scenarioId)
+}
+
+// Validate an untrusted selection (e.g. from a request body) against the catalog
+export function resolveScenarioSelection(
+  input: unknown
+): { scenario: ResolvedScenario } | { error: string } {
+  if (!input || typeof input !== 'object') {
+    return { error: 'scenario must be an object' }
+  }
+
+  const { scenarioId, difficulty, personaId } = input as Record<string, unknown>
+
+  const scenario = typeof scenarioId === 'string' ? findScenario(scenarioId) : undefined
+  if (!scenario) {
+    return { error: `Unknown scenario: ${String(scenarioId)}` }
+  }
+
+  if (!DIFFICULTIES.some(d => d.id === difficulty)) {
+    return { error: `Unknown difficulty: ${String(difficulty)}` }
+  }
+
+  const persona = scenario.personas.find(p => p.id === personaId)
+  if (!persona) {
+    return { error: `Unknown persona for ${scenario.id}: ${String(personaId)}` }
+  }
+
+  return {
+    scenario: {
+      id: scenario.id,
+      label: scenario.label,
+      description: scenario.description,
+      difficulty: difficulty as ScenarioDifficulty,
+      persona,
+    },
+  }
+}
@@ -0,0 +1,70 @@
+// Client-side session history (IndexedDB)
+// One record per call, keyed by room name. A record is written when the call ends
+// and updated in place when its evaluation arrives (including late recovery).
+
+import { Evaluation } from './evaluation'
+import { SessionMetadata } from './session'
+import { TranscriptLine } from './transcript'
+
+const DB_NAME = 'empower-voice-coach'
+const DB_VERSION = 1
+const STORE = 'sessions'
+
+export interface SessionRecord {
+  id: string  // room name
+  savedAt: number
+  session: SessionMetadata
+  evaluation: Evaluation | null
+  raw: unknown
+  transcript: TranscriptLine[]
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'))
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' })
+        store.createIndex('savedAt', 'savedAt')
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDatabase().then(db => new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  }))
+}
+
+export function saveSession(record: Omit<SessionRecord, 'savedAt'>): Promise<IDBValidKey> {
+  return run('readwrite', store => store.put({ ...record, savedAt: Date.now() }))
+}
+
+export function getSession(id: string): Promise<SessionRecord | undefined> {
+  return run('readonly', store => store.get(id))
+}
+
+export function deleteSession(id: string): Promise<undefined> {
+  return run('readwrite', store => store.delete(id))
+}
+
+// Newest first
+export async function listSessions(): Promise<SessionRecord[]> {
+  const records = await run<SessionRecord[]>('readonly', store => store.getAll())
+  return records.sort((a, b) => (b.session.startedAt ?? b.savedAt) - (a.session.startedAt ?? a.savedAt))
+}
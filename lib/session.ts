@@ -0,0 +1,35 @@
+// Session metadata shared by the summary card, exports and session history
+
+import { ResolvedScenario } from './scenarios'
+import { AudioSettings } from './audio-settings'
+import { CallMetricsReport } from './call-metrics'
+
+export interface SessionMetadata {
+  roomName: string | null
+  startedAt: number | null  // ms since epoch
+  durationMs: number | null
+  scenario: ResolvedScenario | null
+  audioSettings?: AudioSettings | null  // Snapshot at connect time (absent in older history records)
+  metrics?: CallMetricsReport | null  // Turn latency and call quality (absent in older history records)
+}
+
+export function formatDuration(ms: number | null): string {
+  if (ms === null) return 'N/A'
+  const totalSeconds = Math.round(ms / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`
+}
+
+export function formatSessionDate(timestamp: number | null): string {
+  if (timestamp === null) return 'N/A'
+  return new Date(timestamp).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })
+}
+
+// Base file name for exports, e.g. `evaluation-expired-listing-2025-11-04`
+export function exportFileBaseName(session: SessionMetadata, scenarioType?: string | null): string {
+  const scenario = session.scenario?.id || scenarioType || 'roleplay'
+  const slug = scenario.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+  const date = new Date(session.startedAt ?? Date.now()).toISOString().slice(0, 10)
+  return `evaluation-${slug || 'roleplay'}-${date}`
+}
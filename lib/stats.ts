@@ -0,0 +1,31 @@
+// Small summary statistics shared by client metrics and server-side reports
+
+export interface PercentileSummary {
+  count: number
+  p50: number
+  p95: number
+  min: number
+  max: number
+}
+
+// Nearest-rank percentile of an unsorted list
+export function percentile(values: number[], p: number): number {
+  const sorted = values.slice().sort((a, b) => a - b)
+  const rank = Math.ceil((p / 100) * sorted.length)
+  return sorted[Math.min(Math.max(rank - 1, 0), sorted.length - 1)]
+}
+
+export function summarize(values: number[]): PercentileSummary | null {
+  if (values.length === 0) return null
+  return {
+    count: values.length,
+    p50: percentile(values, 50),
+    p95: percentile(values, 95),
+    min: Math.min(...values),
+    max: Math.max(...values),
+  }
+}
+
+export function formatMs(value: number | null | undefined): string {
+  return value == null ? '–' : `${Math.round(value)} ms`
+}
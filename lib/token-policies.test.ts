@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { ClaimGrants, TokenVerifier } from 'livekit-server-sdk'
+import { DEFAULT_SCENARIO_SELECTION, ResolvedScenario, resolveScenarioSelection } from './scenarios'
+import { TokenRole, createPolicyToken, getTokenPolicy } from './token-policies'
+
+const ROOM = 'room-test-roleplay-1700000000000-abc123'
+const MINTED_AT_SECONDS = 1_700_000_000
+const API_KEY = 'test-key'
+const API_SECRET = 'test-secret-that-is-long-enough-for-hs256'
+
+function testScenario(): ResolvedScenario {
+  const resolved = resolveScenarioSelection({ ...DEFAULT_SCENARIO_SELECTION, difficulty: 'hard' })
+  if ('error' in resolved) throw new Error(resolved.error)
+  return resolved.scenario
+}
+
+// Checks the signature and decodes the claims, as LiveKit would
+async function mintClaims(role: TokenRole): Promise<ClaimGrants> {
+  const { token } = createPolicyToken(API_KEY, API_SECRET, ROOM, role, {
+    identity: `${role}-1`,
+    displayName: 'Ada Lovelace',
+    team: 'Enterprise',
+    scenario: testScenario(),
+  })
+  return new TokenVerifier(API_KEY, API_SECRET).verify(await token.toJwt())
+}
+
+describe('createPolicyToken', () => {
+  // The SDK sets `exp` from the clock but no `iat`, so pin the clock to know when the token was minted
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(MINTED_AT_SECONDS * 1000)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it.each<[TokenRole, boolean]>([
+    ['trainee', true],
+    ['observer', false],
+  ])('mints a %s token with the policy TTL and grants', async (role, canPublish) => {
+    const claims = await mintClaims(role)
+
+    expect(claims.exp).toBe(MINTED_AT_SECONDS + getTokenPolicy(role).ttlSeconds)
+    expect(claims.sub).toBe(`${role}-1`)
+    expect(claims.name).toBe('Ada Lovelace')
+    expect(claims.video).toMatchObject({
+      roomJoin: true,
+      room: ROOM,
+      canPublish,
+      canPublishData: canPublish,
+      canSubscribe: true,
+    })
+  })
+
+  it.each<TokenRole>(['trainee', 'observer'])('embeds the %s profile in attributes and metadata', async role => {
+    const claims = await mintClaims(role)
+    const scenario = testScenario()
+
+    expect(claims.attributes).toEqual({
+      role,
+      display_name: 'Ada Lovelace',
+      team: 'Enterprise',
+      scenario_id: scenario.id,
+      difficulty: 'hard',
+      persona_id: scenario.persona.id,
+    })
+    expect(JSON.parse(claims.metadata ?? '')).toEqual({
+      role,
+      display_name: 'Ada Lovelace',
+      team: 'Enterprise',
+      scenario: { id: scenario.id, difficulty: 'hard', persona: scenario.persona.id },
+    })
+  })
+
+  it('gives observers a longer TTL than trainees by default', () => {
+    expect(getTokenPolicy('trainee').ttlSeconds).toBe(15 * 60)
+    expect(getTokenPolicy('observer').ttlSeconds).toBe(60 * 60)
+  })
+})
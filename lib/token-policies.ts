@@ -0,0 +1,91 @@
+// Per-role LiveKit token policies for /api/voice-bot/token
+//   - trainee: the person practising a call; publishes audio, short-lived token
+//   - observer: read-only listener (coach, reviewer); can subscribe but not publish
+// TTLs can be tuned with TOKEN_TTL_TRAINEE_SECONDS / TOKEN_TTL_OBSERVER_SECONDS.
+
+import { AccessToken, VideoGrant } from 'livekit-server-sdk'
+import { envLimit } from './rate-limit'
+import type { ResolvedScenario } from './scenarios'
+
+export type TokenRole = 'trainee' | 'observer'
+
+export const TOKEN_ROLES: TokenRole[] = ['trainee', 'observer']
+
+export interface TokenPolicy {
+  ttlSeconds: number
+  grant: Pick<VideoGrant, 'canPublish' | 'canPublishData' | 'canSubscribe'>
+  dispatchAgent: boolean  // Observers join an existing call; they never start the agent
+}
+
+export function getTokenPolicy(role: TokenRole): TokenPolicy {
+  switch (role) {
+    case 'observer':
+      return {
+        ttlSeconds: envLimit('TOKEN_TTL_OBSERVER_SECONDS', 60 * 60),
+        grant: { canPublish: false, canPublishData: false, canSubscribe: true },
+        dispatchAgent: false,
+      }
+    case 'trainee':
+      return {
+        ttlSeconds: envLimit('TOKEN_TTL_TRAINEE_SECONDS', 15 * 60),
+        grant: { canPublish: true, canPublishData: true, canSubscribe: true },
+        dispatchAgent: true,
+      }
+  }
+}
+
+export function isTokenRole(role: unknown): role is TokenRole {
+  return TOKEN_ROLES.includes(role as TokenRole)
+}
+
+export interface ParticipantProfile {
+  identity: string
+  displayName: string
+  team?: string
+  scenario: ResolvedScenario
+}
+
+// Participant attributes are flat strings so the agent and other clients can read them
+// without parsing; metadata carries the same profile as JSON.
+export function participantAttributes(role: TokenRole, profile: ParticipantProfile): Record<string, string> {
+  return {
+    role,
+    display_name: profile.displayName,
+    ...(profile.team ? { team: profile.team } : {}),
+    scenario_id: profile.scenario.id,
+    difficulty: profile.scenario.difficulty,
+    persona_id: profile.scenario.persona.id,
+  }
+}
+
+// Build an AccessToken for `room` with the role's TTL, grants and participant profile.
+// The caller adds the agent dispatch (roomConfig) when the policy allows it.
+export function createPolicyToken(
+  apiKey: string,
+  apiSecret: string,
+  room: string,
+  role: TokenRole,
+  profile: ParticipantProfile
+): { token: AccessToken; policy: TokenPolicy; expiresAt: number } {
+  const policy = getTokenPolicy(role)
+  const token = new AccessToken(apiKey, apiSecret, {
+    identity: profile.identity,
+    name: profile.displayName,
+    ttl: policy.ttlSeconds,
+    attributes: participantAttributes(role, profile),
+    metadata: JSON.stringify({
+      role,
+      display_name: profile.displayName,
+      team: profile.team ?? null,
+      scenario: {
+        id: profile.scenario.id,
+        difficulty: profile.scenario.difficulty,
+        persona: profile.scenario.persona.id,
+      },
+    }),
+  })
+
+  token.addGrant({ roomJoin: true, room, ...policy.grant })
+
+  return { token, policy, expiresAt: Date.now() + policy.ttlSeconds * 1000 }
+}
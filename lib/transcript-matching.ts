@@ -0,0 +1,61 @@
+// Fuzzy matching of evaluation quotes to transcript turns
+// The agent paraphrases and the transcript has STT noise, so we compare word sets:
+// a quote matches the user turn that contains the largest share of its words.
+
+import { Evaluation } from './evaluation'
+import { TranscriptLine } from './transcript'
+
+const MIN_MATCH_SCORE = 0.6
+
+export interface FeedbackLinks {
+  wins: (string | null)[]          // transcript line id per top_wins entry
+  improvements: (string | null)[]  // transcript line id per top_improvements entry
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[’']/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+}
+
+// Share of quote words found in the line, with a small bonus for matching word order
+function matchScore(quote: string[], line: string[]): number {
+  if (quote.length === 0 || line.length === 0) return 0
+  const lineWords = new Set(line)
+  const containment = quote.filter(word => lineWords.has(word)).length / quote.length
+
+  const bigrams = (words: string[]) => new Set(words.slice(1).map((word, idx) => `${words[idx]} ${word}`))
+  const quoteBigrams = bigrams(quote)
+  const lineBigrams = bigrams(line)
+  const order = quoteBigrams.size === 0
+    ? 0
+    : Array.from(quoteBigrams).filter(b => lineBigrams.has(b)).length / quoteBigrams.size
+
+  return containment * 0.8 + order * 0.2
+}
+
+export function findTranscriptMatch(quote: string | undefined, transcript: TranscriptLine[]): string | null {
+  if (!quote) return null
+  const quoteTokens = tokenize(quote)
+
+  let best: { id: string; score: number } | null = null
+  transcript.forEach(line => {
+    // Wins and improvements quote the trainee, never the agent
+    if (line.speaker !== 'user') return
+    const score = matchScore(quoteTokens, tokenize(line.text))
+    if (!best || score > best.score) best = { id: line.id, score }
+  })
+
+  const match = best as { id: string; score: number } | null
+  return match && match.score >= MIN_MATCH_SCORE ? match.id : null
+}
+
+export function linkFeedbackToTranscript(evaluation: Evaluation, transcript: TranscriptLine[]): FeedbackLinks {
+  return {
+    wins: evaluation.top_wins.map(win => findTranscriptMatch(win.citation, transcript)),
+    improvements: evaluation.top_improvements.map(imp => findTranscriptMatch(imp.what_you_said, transcript)),
+  }
+}
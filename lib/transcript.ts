@@ -0,0 +1,58 @@
+// Live transcript model
+// Lines are keyed by segment id: interim segments are replaced in place by later
+// updates (and finally by the final segment) so each utterance shows up once.
+
+export type TranscriptSpeaker = 'agent' | 'user'
+
+export interface TranscriptLine {
+  id: string
+  speaker: TranscriptSpeaker
+  text: string
+  final: boolean
+  timestamp: number  // ms since epoch, when the segment was first received
+}
+
+// A transcript turn linked from an evaluation win or improvement
+export interface TranscriptHighlight {
+  lineId: string
+  kind: 'win' | 'improvement'
+  title: string
+  suggestion?: string  // Suggested alternative shown inline under the turn
+}
+
+export function mergeTranscriptLine(lines: TranscriptLine[], incoming: TranscriptLine): TranscriptLine[] {
+  const idx = lines.findIndex(l => l.id === incoming.id && l.speaker === incoming.speaker)
+
+  if (idx === -1) {
+    // Keep chronological order even if segments arrive slightly out of order
+    return [...lines, incoming].sort((a, b) => a.timestamp - b.timestamp)
+  }
+
+  const existing = lines[idx]
+  // Never downgrade a final line back to interim
+  if (existing.final && !incoming.final) return lines
+
+  const next = lines.slice()
+  next[idx] = { ...existing, text: incoming.text, final: incoming.final }
+  return next
+}
+
+export function mergeTranscriptLines(lines: TranscriptLine[], incoming: TranscriptLine[]): TranscriptLine[] {
+  return incoming.reduce(mergeTranscriptLine, lines)
+}
+
+// Parse the `data` field of a `transcript` data-channel message
+export function parseTranscriptData(data: any): TranscriptLine | null {
+  if (!data || typeof data.text !== 'string') return null
+  if (data.speaker !== 'agent' && data.speaker !== 'user') return null
+
+  const timestamp = typeof data.timestamp === 'number' ? data.timestamp : Date.now()
+
+  return {
+    id: typeof data.id === 'string' ? data.id : `${data.speaker}-${timestamp}`,
+    speaker: data.speaker,
+    text: data.text,
+    final: data.final !== false,
+    timestamp,
+  }
+}
@@ -0,0 +1,183 @@
+// Server-side blind A/B voice testing
+// Named voice configurations live in config/voice-ab-test.json (or VOICE_AB_CONFIG_PATH).
+// The token route assigns one per room and passes it to the agent in the dispatch metadata;
+// the client never learns which one it got. Assignments are stored per room so a rejoin or
+// redispatch keeps the same voice, and ratings are appended to a JSON-lines file.
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { DATA_DIR, ROOM_NAME_PATTERN } from './evaluation-store'
+import { VoiceRatingInput } from './voice-ratings'
+import { PercentileSummary, summarize } from './stats'
+
+const CONFIG_PATH = process.env.VOICE_AB_CONFIG_PATH || path.join(process.cwd(), 'config', 'voice-ab-test.json')
+const VOICE_AB_DIR = path.join(DATA_DIR, 'voice-ab')
+const ASSIGNMENTS_DIR = path.join(VOICE_AB_DIR, 'assignments')
+const RATINGS_PATH = path.join(VOICE_AB_DIR, 'ratings.jsonl')
+
+export interface VoiceConfig {
+  id: string
+  label: string
+  weight?: number
+  tts: Record<string, unknown>  // Passed through to the agent as-is
+}
+
+export interface VoiceAbTestConfig {
+  enabled: boolean
+  configs: VoiceConfig[]
+}
+
+export interface VoiceAssignment {
+  room: string
+  config_id: string
+  assigned_at: string
+}
+
+export interface StoredVoiceRating {
+  room: string
+  config_id: string
+  naturalness: number
+  pace: number
+  overall: number
+  turn_latencies_ms: number[]
+  rated_at: string
+}
+
+export interface VoiceConfigResult {
+  config_id: string
+  label: string
+  sessions: number
+  naturalness: number | null
+  pace: number | null
+  overall: number | null
+  latency: PercentileSummary | null  // Pooled over every rated turn for this configuration
+}
+
+// Read on every call so the config can be edited without a redeploy. Invalid files disable the test.
+export async function loadVoiceAbTestConfig(): Promise<VoiceAbTestConfig | null> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(CONFIG_PATH, 'utf8')) as VoiceAbTestConfig
+    const configs = Array.isArray(parsed.configs)
+      ? parsed.configs.filter(c => c && typeof c.id === 'string' && typeof c.label === 'string' && c.tts && typeof c.tts === 'object')
+      : []
+    if (configs.length !== (parsed.configs?.length ?? 0)) {
+      console.warn(`[VOICE_AB_CONFIG] Ignoring ${(parsed.configs?.length ?? 0) - configs.length} malformed configuration(s)`)
+    }
+    return { enabled: parsed.enabled === true && configs.length > 0, configs }
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('[VOICE_AB_CONFIG] Failed to load voice A/B config:', err)
+    }
+    return null
+  }
+}
+
+export function pickVoiceConfig(configs: VoiceConfig[], random = Math.random): VoiceConfig {
+  const total = configs.reduce((sum, c) => sum + Math.max(c.weight ?? 1, 0), 0)
+  let point = random() * total
+  for (const config of configs) {
+    point -= Math.max(config.weight ?? 1, 0)
+    if (point < 0) return config
+  }
+  return configs[configs.length - 1]
+}
+
+function assignmentPath(room: string): string {
+  if (!ROOM_NAME_PATTERN.test(room)) {
+    throw new Error(`Invalid room name: ${room}`)
+  }
+  return path.join(ASSIGNMENTS_DIR, `${room}.json`)
+}
+
+export async function loadVoiceAssignment(room: string): Promise<VoiceAssignment | null> {
+  try {
+    return JSON.parse(await fs.readFile(assignmentPath(room), 'utf8')) as VoiceAssignment
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw err
+  }
+}
+
+// The voice configuration for a room, assigning one at random on first use.
+// Returns null when A/B testing is off.
+export async function assignVoiceConfig(room: string): Promise<VoiceConfig | null> {
+  const config = await loadVoiceAbTestConfig()
+  if (!config?.enabled) return null
+
+  const existing = await loadVoiceAssignment(room)
+  const assigned = existing && config.configs.find(c => c.id === existing.config_id)
+  if (assigned) return assigned
+
+  const picked = pickVoiceConfig(config.configs)
+  const record: VoiceAssignment = { room, config_id: picked.id, assigned_at: new Date().toISOString() }
+  await fs.mkdir(ASSIGNMENTS_DIR, { recursive: true })
+  await fs.writeFile(assignmentPath(room), JSON.stringify(record), 'utf8')
+  return picked
+}
+
+// Looks up an existing assignment without creating one (redispatch keeps the same voice)
+export async function findAssignedVoiceConfig(room: string): Promise<VoiceConfig | null> {
+  const [config, assignment] = await Promise.all([loadVoiceAbTestConfig(), loadVoiceAssignment(room)])
+  if (!config || !assignment) return null
+  return config.configs.find(c => c.id === assignment.config_id) ?? null
+}
+
+export async function saveVoiceRating(configId: string, rating: VoiceRatingInput): Promise<StoredVoiceRating> {
+  const record: StoredVoiceRating = {
+    room: rating.roomName,
+    config_id: configId,
+    naturalness: rating.naturalness,
+    pace: rating.pace,
+    overall: rating.overall,
+    turn_latencies_ms: rating.turnLatenciesMs,
+    rated_at: new Date().toISOString(),
+  }
+  await fs.mkdir(VOICE_AB_DIR, { recursive: true })
+  await fs.appendFile(RATINGS_PATH, JSON.stringify(record) + '\n', 'utf8')
+  return record
+}
+
+export async function loadVoiceRatings(): Promise<StoredVoiceRating[]> {
+  let text: string
+  try {
+    text = await fs.readFile(RATINGS_PATH, 'utf8')
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw err
+  }
+
+  // A room may be re-rated; the latest rating wins
+  const byRoom = new Map<string, StoredVoiceRating>()
+  text.split('\n').forEach(line => {
+    if (!line.trim()) return
+    try {
+      const record = JSON.parse(line) as StoredVoiceRating
+      byRoom.set(record.room, record)
+    } catch {
+      console.warn('[VOICE_AB_RATINGS] Skipping malformed line')
+    }
+  })
+  return Array.from(byRoom.values())
+}
+
+export async function summarizeVoiceRatings(): Promise<VoiceConfigResult[]> {
+  const [config, ratings] = await Promise.all([loadVoiceAbTestConfig(), loadVoiceRatings()])
+  const labels = new Map((config?.configs ?? []).map(c => [c.id, c.label]))
+  const ids = Array.from(new Set([...labels.keys(), ...ratings.map(r => r.config_id)]))
+
+  const average = (values: number[]) =>
+    values.length > 0 ? Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 100) / 100 : null
+
+  return ids.map(id => {
+    const rated = ratings.filter(r => r.config_id === id)
+    return {
+      config_id: id,
+      label: labels.get(id) ?? id,
+      sessions: rated.length,
+      naturalness: average(rated.map(r => r.naturalness)),
+      pace: average(rated.map(r => r.pace)),
+      overall: average(rated.map(r => r.overall)),
+      latency: summarize(rated.flatMap(r => r.turn_latencies_ms)),
+    }
+  })
+}
@@ -0,0 +1,61 @@
+// Post-call ratings for blind A/B voice tests (shared by the rating form and the ratings route)
+
+export type RatingAspect = 'naturalness' | 'pace' | 'overall'
+
+export const RATING_ASPECTS: { key: RatingAspect; label: string; hint: string }[] = [
+  { key: 'naturalness', label: 'Naturalness', hint: 'Did the voice sound like a real person?' },
+  { key: 'pace', label: 'Pace', hint: 'Was the speaking and response speed comfortable?' },
+  { key: 'overall', label: 'Overall quality', hint: 'How was the voice overall?' },
+]
+
+export const RATING_MIN = 1
+export const RATING_MAX = 5
+
+// Bounds on the latencies a rating may carry, so one client can't bloat the store or skew p50/p95
+export const MAX_TURN_LATENCIES = 500
+export const MAX_TURN_LATENCY_MS = 60000
+
+// What the rating form sends: the most recent turns, within bounds
+export function boundedTurnLatencies(latencies: number[]): number[] {
+  return latencies.filter(v => v >= 0 && v <= MAX_TURN_LATENCY_MS).slice(-MAX_TURN_LATENCIES)
+}
+
+export interface VoiceRatingInput {
+  roomName: string
+  naturalness: number
+  pace: number
+  overall: number
+  turnLatenciesMs: number[]
+}
+
+export function validateVoiceRating(body: unknown): { rating: VoiceRatingInput } | { error: string } {
+  if (!body || typeof body !== 'object') return { error: 'Rating body must be an object' }
+  const input = body as Record<string, unknown>
+
+  if (typeof input.roomName !== 'string' || !input.roomName) return { error: 'roomName is required' }
+
+  for (const { key } of RATING_ASPECTS) {
+    const value = input[key]
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < RATING_MIN || value > RATING_MAX) {
+      return { error: `${key} must be a whole number from ${RATING_MIN} to ${RATING_MAX}` }
+    }
+  }
+
+  const latencies = input.turnLatenciesMs ?? []
+  if (!Array.isArray(latencies) || latencies.length > MAX_TURN_LATENCIES) {
+    return { error: `turnLatenciesMs must be a list of at most ${MAX_TURN_LATENCIES} numbers` }
+  }
+  if (!latencies.every(v => typeof v === 'number' && Number.isFinite(v) && v >= 0 && v <= MAX_TURN_LATENCY_MS)) {
+    return { error: `turnLatenciesMs values must be between 0 and ${MAX_TURN_LATENCY_MS} ms` }
+  }
+
+  return {
+    rating: {
+      roomName: input.roomName,
+      naturalness: input.naturalness as number,
+      pace: input.pace as number,
+      overall: input.overall as number,
+      turnLatenciesMs: latencies as number[],
+    },
+  }
+}
@@ -0,0 +1,207 @@
+// Server-side store for LiveKit webhook events
+// The room lifecycle events we care about are appended to a JSON-lines file under DATA_DIR,
+// one line per event, and folded into a per-room lifecycle record when read back.
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { WebhookEvent } from 'livekit-server-sdk'
+import { EgressStatus, TrackSource, TrackType } from '@livekit/protocol'
+import { DATA_DIR } from './evaluation-store'
+import { isAgentParticipantInfo } from './agent-dispatch'
+
+const WEBHOOK_EVENTS_PATH = path.join(DATA_DIR, 'webhook-events.jsonl')
+
+export const STORED_WEBHOOK_EVENTS = [
+  'room_started',
+  'room_finished',
+  'participant_joined',
+  'participant_left',
+  'track_published',
+  'egress_ended',
+] as const
+
+export type StoredWebhookEventName = typeof STORED_WEBHOOK_EVENTS[number]
+
+export interface StoredWebhookEvent {
+  id: string
+  event: StoredWebhookEventName
+  room: string
+  participant?: { identity: string; name: string; is_agent: boolean }
+  track?: { sid: string; type: string; source: string }
+  egress?: { egress_id: string; status: string }
+  created_at: string  // When LiveKit emitted the event
+  received_at: string
+}
+
+export interface RoomParticipantRecord {
+  identity: string
+  name: string
+  is_agent: boolean
+  joined_at: string | null
+  left_at: string | null
+}
+
+export interface RoomLifecycle {
+  room: string
+  started_at: string | null
+  finished_at: string | null
+  duration_ms: number | null
+  participants: RoomParticipantRecord[]
+  agent_joined_at: string | null
+  agent_join_ms: number | null  // Room start → first agent join
+  tracks_published: number
+  egress: { egress_id: string; status: string; ended_at: string }[]
+  first_event_at: string
+  last_event_at: string
+}
+
+function isStoredEventName(name: string): name is StoredWebhookEventName {
+  return (STORED_WEBHOOK_EVENTS as readonly string[]).includes(name)
+}
+
+function toStoredEvent(event: WebhookEvent): StoredWebhookEvent | null {
+  if (!isStoredEventName(event.event)) return null
+
+  const room = event.room?.name || event.egressInfo?.roomName
+  if (!room) return null
+
+  return {
+    id: event.id,
+    event: event.event,
+    room,
+    ...(event.participant ? {
+      participant: {
+        identity: event.participant.identity,
+        name: event.participant.name,
+        is_agent: isAgentParticipantInfo(event.participant),
+      },
+    } : {}),
+    ...(event.track ? {
+      track: {
+        sid: event.track.sid,
+        type: TrackType[event.track.type] ?? String(event.track.type),
+        source: TrackSource[event.track.source] ?? String(event.track.source),
+      },
+    } : {}),
+    ...(event.egressInfo ? {
+      egress: {
+        egress_id: event.egressInfo.egressId,
+        status: EgressStatus[event.egressInfo.status] ?? String(event.egressInfo.status),
+      },
+    } : {}),
+    created_at: new Date(Number(event.createdAt) * 1000).toISOString(),
+    received_at: new Date().toISOString(),
+  }
+}
+
+// Returns null for events we don't keep
+export async function saveWebhookEvent(event: WebhookEvent): Promise<StoredWebhookEvent | null> {
+  const record = toStoredEvent(event)
+  if (!record) return null
+
+  await fs.mkdir(DATA_DIR, { recursive: true })
+  await fs.appendFile(WEBHOOK_EVENTS_PATH, JSON.stringify(record) + '\n', 'utf8')
+  return record
+}
+
+// Oldest first
+export async function loadWebhookEvents(): Promise<StoredWebhookEvent[]> {
+  let text: string
+  try {
+    text = await fs.readFile(WEBHOOK_EVENTS_PATH, 'utf8')
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw err
+  }
+
+  const events: StoredWebhookEvent[] = []
+  text.split('\n').forEach(line => {
+    if (!line.trim()) return
+    try {
+      events.push(JSON.parse(line) as StoredWebhookEvent)
+    } catch {
+      console.warn('[WEBHOOK_EVENT_STORE] Skipping malformed line')
+    }
+  })
+  return events.sort((a, b) => a.created_at.localeCompare(b.created_at))
+}
+
+function participantRecord(lifecycle: RoomLifecycle, participant: NonNullable<StoredWebhookEvent['participant']>): RoomParticipantRecord {
+  let record = lifecycle.participants.find(p => p.identity === participant.identity)
+  if (!record) {
+    record = { ...participant, joined_at: null, left_at: null }
+    lifecycle.participants.push(record)
+  }
+  return record
+}
+
+const elapsedMs = (from: string | null, to: string | null) =>
+  from && to ? new Date(to).getTime() - new Date(from).getTime() : null
+
+// Fold the event log into one record per room, newest activity first
+export function buildRoomLifecycles(events: StoredWebhookEvent[]): RoomLifecycle[] {
+  const rooms = new Map<string, RoomLifecycle>()
+
+  const sorted = [...events].sort((a, b) => a.created_at.localeCompare(b.created_at))
+  sorted.forEach(event => {
+    let lifecycle = rooms.get(event.room)
+    if (!lifecycle) {
+      lifecycle = {
+        room: event.room,
+        started_at: null,
+        finished_at: null,
+        duration_ms: null,
+        participants: [],
+        agent_joined_at: null,
+        agent_join_ms: null,
+        tracks_published: 0,
+        egress: [],
+        first_event_at: event.created_at,
+        last_event_at: event.created_at,
+      }
+      rooms.set(event.room, lifecycle)
+    }
+    lifecycle.last_event_at = event.created_at
+
+    switch (event.event) {
+      case 'room_started':
+        lifecycle.started_at ??= event.created_at
+        break
+      case 'room_finished':
+        lifecycle.finished_at = event.created_at
+        break
+      case 'participant_joined': {
+        if (!event.participant) break
+        // A rejoin keeps the first join time but clears the earlier leave
+        const joined = participantRecord(lifecycle, event.participant)
+        joined.joined_at ??= event.created_at
+        joined.left_at = null
+        if (event.participant.is_agent) lifecycle.agent_joined_at ??= event.created_at
+        break
+      }
+      case 'participant_left':
+        if (event.participant) participantRecord(lifecycle, event.participant).left_at = event.created_at
+        break
+      case 'track_published':
+        lifecycle.tracks_published += 1
+        break
+      case 'egress_ended':
+        if (event.egress) lifecycle.egress.push({ ...event.egress, ended_at: event.created_at })
+        break
+    }
+
+    lifecycle.duration_ms = elapsedMs(lifecycle.started_at, lifecycle.finished_at)
+    lifecycle.agent_join_ms = elapsedMs(lifecycle.started_at, lifecycle.agent_joined_at)
+  })
+
+  return Array.from(rooms.values()).sort((a, b) => b.last_event_at.localeCompare(a.last_event_at))
+}
+
+// Rooms whose start (or first event, when room_started was missed) falls in [from, to]
+export async function loadRoomLifecycles({ from, to }: { from?: Date; to?: Date } = {}): Promise<RoomLifecycle[]> {
+  const lifecycles = buildRoomLifecycles(await loadWebhookEvents())
+  return lifecycles.filter(lifecycle => {
+    const startedAt = new Date(lifecycle.started_at ?? lifecycle.first_event_at)
+    return (!from || startedAt >= from) && (!to || startedAt <= to)
+  })
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { createReplayGuard } from './webhook-replay'
+
+const MAX_AGE_MS = 5 * 60 * 1000
+const NOW = 1_700_000_000_000
+const nowSeconds = NOW / 1000
+
+describe('createReplayGuard', () => {
+  it('accepts an event once and flags repeats as duplicates', () => {
+    const guard = createReplayGuard({ maxAgeMs: MAX_AGE_MS })
+    expect(guard.check('EV_1', nowSeconds, NOW)).toBe('ok')
+    expect(guard.check('EV_1', nowSeconds, NOW + 1000)).toBe('duplicate')
+    expect(guard.check('EV_2', nowSeconds, NOW + 1000)).toBe('ok')
+  })
+
+  it('rejects events without an id', () => {
+    expect(createReplayGuard({ maxAgeMs: MAX_AGE_MS }).check('', nowSeconds, NOW)).toBe('missing_id')
+  })
+
+  it('rejects events created too long ago or too far in the future', () => {
+    const guard = createReplayGuard({ maxAgeMs: MAX_AGE_MS })
+    expect(guard.check('EV_old', nowSeconds - 301, NOW)).toBe('stale')
+    expect(guard.check('EV_future', nowSeconds + 301, NOW)).toBe('stale')
+    expect(guard.check('EV_edge', nowSeconds - 300, NOW)).toBe('ok')
+  })
+
+  it('reports a replay of a remembered event as stale once its window has passed', () => {
+    const guard = createReplayGuard({ maxAgeMs: MAX_AGE_MS })
+    expect(guard.check('EV_1', nowSeconds, NOW)).toBe('ok')
+    expect(guard.check('EV_1', nowSeconds, NOW + MAX_AGE_MS + 1)).toBe('stale')
+  })
+
+  it('lets a forgotten event through again so LiveKit can retry it', () => {
+    const guard = createReplayGuard({ maxAgeMs: MAX_AGE_MS })
+    expect(guard.check('EV_1', nowSeconds, NOW)).toBe('ok')
+    guard.forget('EV_1')
+    expect(guard.check('EV_1', nowSeconds, NOW + 1000)).toBe('ok')
+  })
+})
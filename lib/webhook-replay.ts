@@ -0,0 +1,37 @@
+// Replay protection for LiveKit webhooks
+// A valid signature only proves LiveKit sent the body once, so a captured request could be
+// posted again. Events are deduplicated on their `id` and refused when `createdAt` is outside
+// the accepted window. Seen ids live in memory (per instance); the age check covers restarts.
+
+export type ReplayCheck = 'ok' | 'duplicate' | 'stale' | 'missing_id'
+
+export function createReplayGuard({ maxAgeMs }: { maxAgeMs: number }) {
+  const seen = new Map<string, number>()  // event id -> expiry
+
+  const prune = (now: number) => {
+    seen.forEach((expiresAt, id) => {
+      if (expiresAt <= now) seen.delete(id)
+    })
+  }
+
+  return {
+    // `createdAtSeconds` is the event's unix timestamp; accepted ids are remembered until
+    // they would be stale anyway
+    check(id: string, createdAtSeconds: number, now = Date.now()): ReplayCheck {
+      if (!id) return 'missing_id'
+      if (Math.abs(now - createdAtSeconds * 1000) > maxAgeMs) return 'stale'
+      if (seen.size > 10000) prune(now)
+
+      const expiresAt = seen.get(id)
+      if (expiresAt !== undefined && expiresAt > now) return 'duplicate'
+
+      seen.set(id, createdAtSeconds * 1000 + maxAgeMs)
+      return 'ok'
+    },
+
+    // Let LiveKit's retry through when we failed to process the event
+    forget(id: string) {
+      seen.delete(id)
+    },
+  }
+}
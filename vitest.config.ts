@@ -0,0 +1,9 @@
+import path from 'path'
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  resolve: {
+    // Same `@/` alias as tsconfig.json, for tests that import route handlers
+    alias: { '@': path.resolve(__dirname) },
+  },
+})